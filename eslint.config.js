@@ -1,3 +1,9 @@
 import eslintPluginPrettierRecommended from 'eslint-plugin-prettier/recommended';
 
-export default [eslintPluginPrettierRecommended];
+export default [
+  {
+    // 构建产物与 nuxi prepare 生成的类型
+    ignores: ['**/dist/', '**/.nuxt/'],
+  },
+  eslintPluginPrettierRecommended,
+];
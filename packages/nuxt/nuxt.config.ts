@@ -0,0 +1,6 @@
+/**
+ * 只用于 nuxi prepare 生成类型，以便对模块进行类型检查，不会被发布
+ */
+export default defineNuxtConfig({
+  modules: ['@pinia/nuxt', './src/module'],
+});
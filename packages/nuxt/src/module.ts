@@ -0,0 +1,76 @@
+import { addImports, addPlugin, createResolver, defineNuxtModule } from '@nuxt/kit';
+import { defu } from 'defu';
+import type { CnPersistFactoryOptions } from 'cn-persist-pinia-plugin';
+import type { CnNuxtCookieOptions } from './runtime/storages';
+
+/**
+ * 模块配置，同时作为运行时配置 runtimeConfig.public.cnPersist，可以通过 NUXT_PUBLIC_CN_PERSIST_* 环境变量覆盖
+ * 运行时配置只能包含可以序列化的值，因此函数类型的配置（例如全局的 key、钩子）以可以序列化的形式提供
+ */
+export interface ModuleOptions
+  extends Pick<
+    CnPersistFactoryOptions,
+    | 'auto'
+    | 'debug'
+    | 'crossTab'
+    | 'serializer'
+    | 'globalDebounce'
+    | 'globalMaxWait'
+    | 'autoFlush'
+    | 'devtools'
+    | 'hashActionPrefix'
+    | 'hdelActionPrefix'
+    | 'lpushActionPrefix'
+    | 'lsetActionPrefix'
+  > {
+  /**
+   * 缺省的 storage，store 与 state 可以通过 storage 选项覆盖，见：cnPersistStorages
+   * 'localStorage' 与 'sessionStorage' 只在客户端持久化，'cookies' 在服务端与客户端都可以读写，
+   * 因此需要在服务端渲染时就恢复的 state（例如登录状态）应该使用 'cookies'
+   * @default 'localStorage'
+   */
+  storage?: 'localStorage' | 'sessionStorage' | 'cookies';
+  /**
+   * storage 为 'cookies' 时 cookie 的属性
+   */
+  cookieOptions?: Omit<CnNuxtCookieOptions, 'expires'>;
+  /**
+   * 所有 store 的 key 的前缀，对应全局的 key 选项：storeKey => `${keyPrefix}${storeKey}`
+   */
+  keyPrefix?: string;
+  /**
+   * 见：CnPersistFactoryOptions.quota，运行时配置中不能使用自定义的淘汰函数
+   */
+  quota?: { policy: 'lru' | 'priority'; maxRetries?: number };
+}
+
+declare module '@nuxt/schema' {
+  interface PublicRuntimeConfig {
+    cnPersist: ModuleOptions;
+  }
+}
+
+/**
+ * 需要同时安装 @pinia/nuxt，本模块的插件在 pinia 的插件之后执行
+ */
+export default defineNuxtModule<ModuleOptions>({
+  meta: {
+    name: '@cn-persist-pinia-plugin/nuxt',
+    configKey: 'cnPersist',
+    compatibility: {
+      nuxt: '^3.0.0',
+    },
+  },
+  defaults: {
+    storage: 'localStorage',
+    cookieOptions: {},
+  },
+  setup(options, nuxt) {
+    const resolver = createResolver(import.meta.url);
+    // 运行时配置优先，以便部署时通过环境变量修改
+    nuxt.options.runtimeConfig.public.cnPersist = defu(nuxt.options.runtimeConfig.public.cnPersist, options);
+    nuxt.options.build.transpile.push(resolver.resolve('./runtime'));
+    addPlugin(resolver.resolve('./runtime/plugin'));
+    addImports({ name: 'cnPersistStorages', from: resolver.resolve('./runtime/storages') });
+  },
+});
@@ -0,0 +1,121 @@
+import { defineNuxtPlugin, useRuntimeConfig } from '#imports';
+import { appendResponseHeader, getRequestHeader } from 'h3';
+import type { Pinia, PiniaPluginContext, Store } from 'pinia';
+import {
+  createCnPersistPiniaPlugin,
+  createCookieJar,
+  releaseCnPersist,
+  type CnPersistFactoryOptions,
+} from 'cn-persist-pinia-plugin';
+import type { ModuleOptions } from '../module';
+import { cnPersistStorages, produceCookieJarBinder } from './storages';
+
+type CookieJarBinder = ReturnType<typeof produceCookieJarBinder>;
+
+const getStorage = ({ storage, cookieOptions }: ModuleOptions) => {
+  switch (storage) {
+    case 'cookies':
+      return cnPersistStorages.cookiesWithOptions(cookieOptions);
+    case 'sessionStorage':
+      return cnPersistStorages.sessionStorage;
+    default:
+      return cnPersistStorages.localStorage;
+  }
+};
+
+/**
+ * 将运行时配置转换为插件的配置
+ */
+const toFactoryOptions = (moduleOptions: ModuleOptions): CnPersistFactoryOptions => {
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  const { storage, cookieOptions, keyPrefix, ...factoryOptions } = moduleOptions;
+  return {
+    ...factoryOptions,
+    storage: getStorage(moduleOptions),
+    ...(keyPrefix && { key: (storeKey: string) => `${keyPrefix}${storeKey}` }),
+  };
+};
+
+/**
+ * 服务端的插件的配置：state 的变化不防抖，直接写入本次请求的 cookie jar，
+ * 服务端没有其它标签页与页面隐藏事件，也不需要 devtools
+ */
+const toServerFactoryOptions = (moduleOptions: ModuleOptions, bindCookieJar: CookieJarBinder) => {
+  const factoryOptions = toFactoryOptions(moduleOptions);
+  return {
+    ...factoryOptions,
+    storage: bindCookieJar(factoryOptions.storage),
+    globalDebounce: 0,
+    crossTab: false,
+    autoFlush: false,
+    devtools: false,
+  } satisfies CnPersistFactoryOptions;
+};
+
+/**
+ * 将 store 的配置中的 cookie storage 替换为读写本次请求的 cookie jar 的 storage，不修改 store 的定义
+ */
+const bindStoreCookieJar = (context: PiniaPluginContext, bindCookieJar: CookieJarBinder): PiniaPluginContext => {
+  const { cnPersist } = context.options;
+  if (!cnPersist || cnPersist === true) {
+    return context;
+  }
+  const { storage, states } = cnPersist;
+  return {
+    ...context,
+    options: {
+      ...context.options,
+      cnPersist: {
+        ...cnPersist,
+        ...(storage && { storage: bindCookieJar(storage) }),
+        ...(states && {
+          states: Object.fromEntries(
+            Object.entries(states).map(([stateKey, statePersistOptions]) => [
+              stateKey,
+              statePersistOptions?.storage
+                ? { ...statePersistOptions, storage: bindCookieJar(statePersistOptions.storage) }
+                : statePersistOptions,
+            ]),
+          ),
+        }),
+      },
+    },
+  };
+};
+
+/**
+ * 服务端与客户端都安装插件，服务端的 pinia 随每个请求创建：
+ * cookie 从本次请求的 Cookie 头恢复，渲染完成后写入的 cookie 被添加到响应的 Set-Cookie 头，并释放本次请求的 state
+ */
+export default defineNuxtPlugin({
+  name: 'cn-persist-pinia-plugin',
+  dependsOn: ['pinia'],
+  setup(nuxtApp) {
+    const pinia = nuxtApp.$pinia as Pinia;
+    const moduleOptions = useRuntimeConfig().public.cnPersist;
+    const { ssrContext } = nuxtApp;
+    if (!ssrContext) {
+      pinia.use(createCnPersistPiniaPlugin(toFactoryOptions(moduleOptions)));
+      return;
+    }
+
+    const jar = createCookieJar(getRequestHeader(ssrContext.event, 'cookie'));
+    const bindCookieJar = produceCookieJarBinder(jar);
+    const cnPersistPlugin = createCnPersistPiniaPlugin(toServerFactoryOptions(moduleOptions, bindCookieJar));
+    const stores: Array<Store> = [];
+    pinia.use(context => {
+      stores.push(context.store);
+      return cnPersistPlugin(bindStoreCookieJar(context, bindCookieJar));
+    });
+
+    nuxtApp.hooks.hook('app:rendered', async () => {
+      // store 或 state 配置了防抖时，还有未写入的修改
+      await Promise.all(stores.map(store => store.$flush?.()));
+      const setCookies = jar.getSetCookies();
+      if (setCookies.length) {
+        appendResponseHeader(ssrContext.event, 'set-cookie', setCookies);
+      }
+      releaseCnPersist(pinia);
+    });
+  },
+});
@@ -0,0 +1,58 @@
+import { createCookieStorage } from 'cn-persist-pinia-plugin';
+import type { AsyncStorageLike, CnCookieJar, CnCookieStorageOptions, StorageLike } from 'cn-persist-pinia-plugin';
+
+/**
+ * cookie 的属性与分片长度，不支持 httpOnly，否则客户端无法读取
+ */
+export type CnNuxtCookieOptions = Omit<CnCookieStorageOptions, 'jar'>;
+
+/**
+ * cnPersistStorages 创建的 cookie storage 的参数，服务端据此创建读写本次请求的 cookie jar 的 storage
+ */
+const cookieStorageOptions: WeakMap<StorageLike | AsyncStorageLike, CnNuxtCookieOptions> = new WeakMap();
+
+/**
+ * 客户端读写 document.cookie，服务端由运行时插件替换为读写本次请求的 cookie jar 的 storage，见：{@link produceCookieJarBinder}
+ */
+const produceCookieStorage = (cookieOptions: CnNuxtCookieOptions = {}): StorageLike => {
+  const storage = createCookieStorage(cookieOptions);
+  cookieStorageOptions.set(storage, cookieOptions);
+  return storage;
+};
+
+/**
+ * 返回将 cnPersistStorages 创建的 cookie storage 替换为读写 jar 的 storage 的函数，其它 storage 原样返回
+ * 服务端的 pinia 与 jar 随每个请求创建，而 store 的定义中的 storage 是所有请求共享的，
+ * 因此在创建 store 时替换，state 的变化在 watch 的回调中写入时不依赖 Nuxt 上下文
+ */
+export const produceCookieJarBinder = (jar: CnCookieJar) => {
+  const boundStorages: WeakMap<StorageLike | AsyncStorageLike, StorageLike> = new WeakMap();
+  return <T extends StorageLike | AsyncStorageLike | undefined>(storage: T): T => {
+    const cookieOptions = storage && cookieStorageOptions.get(storage);
+    if (!storage || !cookieOptions) {
+      return storage;
+    }
+    let boundStorage = boundStorages.get(storage);
+    if (!boundStorage) {
+      boundStorage = createCookieStorage({ ...cookieOptions, jar });
+      boundStorages.set(storage, boundStorage);
+    }
+    return boundStorage as T;
+  };
+};
+
+/**
+ * 可以在 store 或 state 的 storage 选项中使用的 storage，自动导入
+ * store 的定义在服务端同样会执行，因此服务端访问它们不会报错：没有 localStorage 与 sessionStorage 时返回 undefined，
+ * 使用它们的 state 在服务端不持久化也不恢复；cookie 在服务端读写本次请求的 Cookie 头与响应的 Set-Cookie 头
+ */
+export const cnPersistStorages = {
+  get localStorage(): StorageLike | undefined {
+    return typeof localStorage === 'undefined' ? undefined : localStorage;
+  },
+  get sessionStorage(): StorageLike | undefined {
+    return typeof sessionStorage === 'undefined' ? undefined : sessionStorage;
+  },
+  cookies: produceCookieStorage(),
+  cookiesWithOptions: produceCookieStorage,
+};
@@ -0,0 +1,14 @@
+import type { ModuleOptions } from '../src/module';
+
+/**
+ * 测试中代替 Nuxt 生成的 #imports，只提供运行时插件使用的部分
+ */
+export const runtimeConfig: { public: { cnPersist: ModuleOptions } } = { public: { cnPersist: {} } };
+
+export function useRuntimeConfig() {
+  return runtimeConfig;
+}
+
+export function defineNuxtPlugin<T>(plugin: T): T {
+  return plugin;
+}
@@ -0,0 +1,52 @@
+import { describe, expect, it, vi } from 'vitest';
+import { addImports, addPlugin } from '@nuxt/kit';
+
+import module from '../src/module';
+
+vi.mock('@nuxt/kit', () => ({
+  defineNuxtModule: <T>(definition: T) => definition,
+  createResolver: () => ({ resolve: (path: string) => `/module/${path.replace('./', '')}` }),
+  addPlugin: vi.fn(),
+  addImports: vi.fn(),
+}));
+
+/**
+ * 执行模块的 setup，publicRuntimeConfig 为 nuxt.config 中已有的运行时配置
+ */
+const setupModule = (options: object, publicRuntimeConfig: object = {}) => {
+  const nuxt = { options: { runtimeConfig: { public: publicRuntimeConfig }, build: { transpile: [] } } };
+  (module as unknown as { setup: (options: object, nuxt: object) => void }).setup(options, nuxt);
+  return nuxt.options;
+};
+
+describe('module', () => {
+  it('registers the runtime plugin on both the server and the client', () => {
+    //* act
+    setupModule({});
+
+    //* assert
+    expect(addPlugin).toHaveBeenCalledWith('/module/runtime/plugin');
+    expect(addImports).toHaveBeenCalledWith({ name: 'cnPersistStorages', from: '/module/runtime/storages' });
+  });
+
+  it('transpiles the runtime directory', () => {
+    //* act
+    const options = setupModule({});
+
+    //* assert
+    expect(options.build.transpile).toEqual(['/module/runtime']);
+  });
+
+  it('merges the module options into the public runtime config', () => {
+    //* act
+    const options = setupModule(
+      { storage: 'cookies', cookieOptions: { maxAge: 60 }, globalDebounce: 100 },
+      { cnPersist: { globalDebounce: 0 } },
+    );
+
+    //* assert
+    expect(options.runtimeConfig.public).toEqual({
+      cnPersist: { storage: 'cookies', cookieOptions: { maxAge: 60 }, globalDebounce: 0 },
+    });
+  });
+});
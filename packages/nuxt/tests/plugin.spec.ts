@@ -0,0 +1,140 @@
+import { IncomingMessage, ServerResponse } from 'node:http';
+import { Socket } from 'node:net';
+import { afterEach, describe, expect, it } from 'vitest';
+import { createApp, nextTick } from 'vue';
+import { createPinia, defineStore } from 'pinia';
+import { createEvent } from 'h3';
+
+import plugin from '../src/runtime/plugin';
+import { cnPersistStorages } from '../src/runtime/storages';
+import { runtimeConfig } from './imports';
+
+const STORE_ID = 'mock-store';
+const STATE_KEY = 'lorem';
+const PERSIST_KEY = `cn-${STORE_ID}-${STATE_KEY}`;
+
+const useStore = defineStore(STORE_ID, {
+  state: () => ({ [STATE_KEY]: 'en' }),
+  cnPersist: { storage: cnPersistStorages.cookies, states: { [STATE_KEY]: {} } },
+});
+
+/**
+ * 创建请求，cookieHeader 为请求的 Cookie 头
+ */
+const produceEvent = (cookieHeader?: string) => {
+  const req = new IncomingMessage(new Socket());
+  if (cookieHeader) {
+    req.headers.cookie = cookieHeader;
+  }
+  return createEvent(req, new ServerResponse(req));
+};
+
+/**
+ * 执行运行时插件并安装 pinia，有 event 时模拟服务端渲染
+ */
+const setupNuxtApp = (event?: ReturnType<typeof produceEvent>) => {
+  const pinia = createPinia();
+  const renderedHooks: Array<() => unknown> = [];
+  const nuxtApp = {
+    $pinia: pinia,
+    ssrContext: event && { event },
+    hooks: {
+      hook: (name: string, hook: () => unknown) => {
+        if (name === 'app:rendered') {
+          renderedHooks.push(hook);
+        }
+      },
+    },
+  };
+  plugin.setup!(nuxtApp as never);
+  createApp({}).use(pinia);
+  return { pinia, render: () => Promise.all(renderedHooks.map(hook => hook())) };
+};
+
+describe('runtime plugin', () => {
+  afterEach(() => {
+    runtimeConfig.public.cnPersist = {};
+    document.cookie = `${PERSIST_KEY}=; Max-Age=0; Path=/`;
+  });
+
+  it('persists to document.cookie on the client', async () => {
+    //* arrange
+    runtimeConfig.public.cnPersist = { globalDebounce: 0 };
+    const { pinia } = setupNuxtApp();
+    const store = useStore(pinia);
+
+    //* act
+    store[STATE_KEY] = 'zh-CN';
+    await nextTick();
+
+    //* assert
+    expect(document.cookie).toContain(`${PERSIST_KEY}=%22zh-CN%22`);
+  });
+
+  it('uses the storage and the key prefix of the module options', async () => {
+    //* arrange
+    runtimeConfig.public.cnPersist = { storage: 'cookies', keyPrefix: 'app-', globalDebounce: 0 };
+    const { pinia } = setupNuxtApp();
+    const store = defineStore('mock-default-store', {
+      state: () => ({ [STATE_KEY]: 'en' }),
+      cnPersist: { states: { [STATE_KEY]: {} } },
+    })(pinia);
+
+    //* act
+    store[STATE_KEY] = 'zh-CN';
+    await nextTick();
+
+    //* assert
+    expect(document.cookie).toContain(`cn-app-mock-default-store-${STATE_KEY}=%22zh-CN%22`);
+    document.cookie = `cn-app-mock-default-store-${STATE_KEY}=; Max-Age=0; Path=/`;
+  });
+
+  it('restores from the cookie header of the request on the server', () => {
+    //* arrange
+    const { pinia } = setupNuxtApp(produceEvent(`${PERSIST_KEY}=%22zh-CN%22`));
+
+    //* act
+    const store = useStore(pinia);
+
+    //* assert
+    expect(store[STATE_KEY]).toBe('zh-CN');
+  });
+
+  it('writes the changes to the set-cookie header of the response on the server', async () => {
+    //* arrange
+    const event = produceEvent();
+    const { pinia, render } = setupNuxtApp(event);
+    const store = useStore(pinia);
+
+    //* act
+    store[STATE_KEY] = 'zh-CN';
+    await nextTick();
+    await render();
+
+    //* assert
+    expect(event.node.res.getHeader('set-cookie')).toEqual([`${PERSIST_KEY}=%22zh-CN%22; Path=/`]);
+    expect(document.cookie).not.toContain(PERSIST_KEY);
+  });
+
+  it('keeps the cookies of concurrent requests apart', async () => {
+    //* arrange
+    const event1 = produceEvent(`${PERSIST_KEY}=%22zh-CN%22`);
+    const event2 = produceEvent(`${PERSIST_KEY}=%22ja%22`);
+    const nuxtApp1 = setupNuxtApp(event1);
+    const nuxtApp2 = setupNuxtApp(event2);
+    const store1 = useStore(nuxtApp1.pinia);
+    const store2 = useStore(nuxtApp2.pinia);
+
+    //* act
+    store1[STATE_KEY] = 'en';
+    await nextTick();
+    await nuxtApp1.render();
+    await nuxtApp2.render();
+
+    //* assert
+    expect(store1[STATE_KEY]).toBe('en');
+    expect(store2[STATE_KEY]).toBe('ja');
+    expect(event1.node.res.getHeader('set-cookie')).toEqual([`${PERSIST_KEY}=%22en%22; Path=/`]);
+    expect(event2.node.res.getHeader('set-cookie')).toBeUndefined();
+  });
+});
@@ -0,0 +1,68 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createApp, nextTick } from 'vue';
+import { createPinia, defineStore, setActivePinia } from 'pinia';
+import { createCnPersistPiniaPlugin } from 'cn-persist-pinia-plugin';
+
+import { cnPersistStorages } from '../src/runtime/storages';
+
+const STORE_ID = 'mock-store';
+const STATE_KEY = 'lorem';
+const PERSIST_KEY = `cn-${STORE_ID}-${STATE_KEY}`;
+
+describe('cnPersistStorages', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    document.cookie = `${PERSIST_KEY}=; Max-Age=0; Path=/`;
+  });
+
+  it('returns the web storages when they exist', () => {
+    //* assert
+    expect(cnPersistStorages.localStorage).toBe(localStorage);
+    expect(cnPersistStorages.sessionStorage).toBe(sessionStorage);
+  });
+
+  it('returns undefined for the web storages when they do not exist', () => {
+    //* arrange
+    vi.stubGlobal('localStorage', undefined);
+    vi.stubGlobal('sessionStorage', undefined);
+
+    //* assert
+    expect(cnPersistStorages.localStorage).toBeUndefined();
+    expect(cnPersistStorages.sessionStorage).toBeUndefined();
+  });
+
+  it('reads and writes document.cookie', () => {
+    //* arrange
+    const storage = cnPersistStorages.cookiesWithOptions({ maxAge: 60 });
+
+    //* act
+    storage.setItem(PERSIST_KEY, '"zh-CN"');
+
+    //* assert
+    expect(document.cookie).toContain(`${PERSIST_KEY}=%22zh-CN%22`);
+    expect(storage.getItem(PERSIST_KEY)).toBe('"zh-CN"');
+  });
+
+  it('persists and restores state through cookies', async () => {
+    //* arrange
+    const pinia = createPinia();
+    pinia.use(createCnPersistPiniaPlugin({ globalDebounce: 0 }));
+    createApp({}).use(pinia);
+    setActivePinia(pinia);
+    const useStore = defineStore(STORE_ID, {
+      state: () => ({ [STATE_KEY]: 'en' }),
+      cnPersist: { storage: cnPersistStorages.cookies, states: { [STATE_KEY]: {} } },
+    });
+    const store = useStore();
+
+    //* act
+    store[STATE_KEY] = 'zh-CN';
+    await nextTick();
+    store[STATE_KEY] = 'en';
+    await store.$hydrate();
+
+    //* assert
+    expect(document.cookie).toContain(`${PERSIST_KEY}=%22zh-CN%22`);
+    expect(store[STATE_KEY]).toBe('zh-CN');
+  });
+});
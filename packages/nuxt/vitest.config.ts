@@ -0,0 +1,25 @@
+import { createRequire } from 'node:module';
+import { fileURLToPath } from 'node:url';
+import { defineConfig } from 'vitest/config';
+
+/**
+ * nuxt 依赖的 vue 与插件的不是同一个版本，测试中的 vue 与 pinia 统一按照插件的依赖解析，
+ * 否则插件与 store 使用不同的 vue，响应式与 effect scope 无法互通
+ */
+const requireFromPlugin = createRequire(new URL('../plugin/package.json', import.meta.url));
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      // 直接使用插件的源码，不需要先构建插件
+      'cn-persist-pinia-plugin': fileURLToPath(new URL('../plugin/src/index.ts', import.meta.url)),
+      // Nuxt 在构建时生成 #imports，测试中使用 tests/imports.ts 代替
+      '#imports': fileURLToPath(new URL('./tests/imports.ts', import.meta.url)),
+      pinia: requireFromPlugin.resolve('pinia'),
+      vue: requireFromPlugin.resolve('vue'),
+    },
+  },
+  test: {
+    environment: 'happy-dom',
+  },
+});
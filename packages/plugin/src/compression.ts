@@ -0,0 +1,203 @@
+/**
+ * 压缩后的持久化值的前缀，恢复时据此判断值是否已压缩，
+ * 没有前缀的值视为未压缩的值，直接交给 deserialize
+ */
+const COMPRESSED_PREFIX = 'cn-lz:';
+
+/**
+ * 每个 UTF-16 字符存储 15 位，并加上偏移量，
+ * 使得所有字符都在 [32, 32800) 之间，既避开了控制字符，也避开了代理对（0xD800 ~ 0xDFFF），
+ * 因此可以安全地存储到 localStorage 中
+ */
+const BITS_PER_CHAR = 15;
+const CHAR_OFFSET = 32;
+
+export interface CnCompressionOptions {
+  /**
+   * 序列化后的字符串长度超过该值时才压缩，压缩后更长时不压缩
+   * @default 1024
+   */
+  threshold?: number;
+}
+
+/**
+ * LZW 变体压缩算法，与 lz-string 的 compressToUTF16 算法相同
+ * 编码 0、1 分别表示后面跟着一个 8 位、16 位的字面字符，编码 2 表示结束，字典从 3 开始
+ * 编码的位宽随字典大小增长
+ */
+const compressToUTF16 = (uncompressed: string): string => {
+  const dictionary: Map<string, number> = new Map();
+  // 首次出现、尚未以字面字符输出的单个字符
+  const dictionaryToCreate: Set<string> = new Set();
+  let w = '';
+  let enlargeIn = 2;
+  let dictSize = 3;
+  let numBits = 2;
+
+  const chars: Array<string> = [];
+  let charValue = 0;
+  let charPosition = 0;
+  const writeBit = (bit: number) => {
+    charValue = (charValue << 1) | bit;
+    if (charPosition == BITS_PER_CHAR - 1) {
+      chars.push(String.fromCharCode(charValue + CHAR_OFFSET));
+      charPosition = 0;
+      charValue = 0;
+    } else {
+      charPosition++;
+    }
+  };
+  const writeBits = (value: number, length: number) => {
+    for (let i = 0; i < length; i++) {
+      writeBit(value & 1);
+      value >>= 1;
+    }
+  };
+  const decreaseEnlargeIn = () => {
+    enlargeIn--;
+    if (enlargeIn == 0) {
+      enlargeIn = Math.pow(2, numBits);
+      numBits++;
+    }
+  };
+  const writeW = () => {
+    if (dictionaryToCreate.has(w)) {
+      const charCode = w.charCodeAt(0);
+      if (charCode < 256) {
+        writeBits(0, numBits);
+        writeBits(charCode, 8);
+      } else {
+        writeBits(1, numBits);
+        writeBits(charCode, 16);
+      }
+      decreaseEnlargeIn();
+      dictionaryToCreate.delete(w);
+    } else {
+      writeBits(dictionary.get(w)!, numBits);
+    }
+    decreaseEnlargeIn();
+  };
+
+  for (const c of uncompressed.split('')) {
+    if (!dictionary.has(c)) {
+      dictionary.set(c, dictSize++);
+      dictionaryToCreate.add(c);
+    }
+    const wc = w + c;
+    if (dictionary.has(wc)) {
+      w = wc;
+    } else {
+      writeW();
+      dictionary.set(wc, dictSize++);
+      w = c;
+    }
+  }
+  if (w !== '') {
+    writeW();
+  }
+  writeBits(2, numBits);
+  // 补齐最后一个字符
+  while (charPosition != 0) {
+    writeBit(0);
+  }
+  return chars.join('');
+};
+
+const decompressFromUTF16 = (compressed: string): string | null => {
+  const dictionary: Array<string> = [];
+  let enlargeIn = 4;
+  let dictSize = 4;
+  let numBits = 3;
+
+  const resetPosition = 1 << (BITS_PER_CHAR - 1);
+  let charValue = compressed.charCodeAt(0) - CHAR_OFFSET;
+  let charPosition = resetPosition;
+  let charIndex = 1;
+  const readBits = (length: number) => {
+    let bits = 0;
+    for (let i = 0; i < length; i++) {
+      const bit = charValue & charPosition;
+      charPosition >>= 1;
+      if (charPosition == 0) {
+        charPosition = resetPosition;
+        charValue = compressed.charCodeAt(charIndex++) - CHAR_OFFSET;
+      }
+      if (bit > 0) {
+        bits |= 1 << i;
+      }
+    }
+    return bits;
+  };
+
+  let c: string;
+  switch (readBits(2)) {
+    case 0:
+      c = String.fromCharCode(readBits(8));
+      break;
+    case 1:
+      c = String.fromCharCode(readBits(16));
+      break;
+    default:
+      return '';
+  }
+  dictionary[3] = c;
+  let w = c;
+  const result: Array<string> = [c];
+  for (;;) {
+    if (charIndex > compressed.length) {
+      return null;
+    }
+    let code = readBits(numBits);
+    switch (code) {
+      case 0:
+      case 1:
+        dictionary[dictSize++] = String.fromCharCode(readBits(code == 0 ? 8 : 16));
+        code = dictSize - 1;
+        enlargeIn--;
+        break;
+      case 2:
+        return result.join('');
+    }
+    if (enlargeIn == 0) {
+      enlargeIn = Math.pow(2, numBits);
+      numBits++;
+    }
+    let entry: string;
+    if (dictionary[code] != null) {
+      entry = dictionary[code];
+    } else if (code === dictSize) {
+      entry = w + w.charAt(0);
+    } else {
+      return null;
+    }
+    result.push(entry);
+    dictionary[dictSize++] = w + entry.charAt(0);
+    enlargeIn--;
+    w = entry;
+    if (enlargeIn == 0) {
+      enlargeIn = Math.pow(2, numBits);
+      numBits++;
+    }
+  }
+};
+
+/**
+ * 长度超过 threshold 且压缩后更短时，返回带前缀的压缩值，否则返回原值
+ */
+export const compress = (persistValue: string, { threshold = 1024 }: CnCompressionOptions): string => {
+  if (persistValue.length <= threshold) {
+    return persistValue;
+  }
+  const compressed = COMPRESSED_PREFIX + compressToUTF16(persistValue);
+  return compressed.length < persistValue.length ? compressed : persistValue;
+};
+
+/**
+ * 带前缀的值进行解压，没有前缀的值原样返回，解压失败时返回 null
+ */
+export const decompress = (persistedValue: string): string | null => {
+  if (!persistedValue.startsWith(COMPRESSED_PREFIX)) {
+    return persistedValue;
+  }
+  return decompressFromUTF16(persistedValue.slice(COMPRESSED_PREFIX.length));
+};
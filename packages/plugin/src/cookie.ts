@@ -0,0 +1,241 @@
+import { StorageLike } from './types';
+
+/**
+ * cookie 的属性，写入与删除 cookie 时使用
+ */
+export interface CnCookieAttributes {
+  /**
+   * 有效期，单位为秒，与 expires 都不配置时为会话 cookie
+   */
+  maxAge?: number;
+  expires?: Date;
+  /**
+   * @default '/'
+   */
+  path?: string;
+  domain?: string;
+  sameSite?: 'strict' | 'lax' | 'none';
+  secure?: boolean;
+}
+
+/**
+ * cookie 的读写接口，name 与 value 都是已经编码的字符串
+ * 删除 cookie 时调用 set，attributes.maxAge 为 0
+ */
+export interface CnCookieJar {
+  get: (name: string) => string | undefined;
+  set: (name: string, value: string, attributes: CnCookieAttributes) => void;
+}
+
+/**
+ * 服务端的 cookie jar，见：{@link createCookieJar}
+ */
+export interface CnServerCookieJar extends CnCookieJar {
+  /**
+   * 返回需要写入响应的 Set-Cookie 头，同一个 cookie 被多次写入时只保留最后一次
+   */
+  getSetCookies: () => Array<string>;
+}
+
+export interface CnCookieStorageOptions extends CnCookieAttributes {
+  /**
+   * 读写 cookie 的 jar，缺省读写 document.cookie，服务端可以传入 {@link createCookieJar} 创建的 jar
+   */
+  jar?: CnCookieJar;
+  /**
+   * 单个 cookie 的 name 与 value 编码后的最大长度，超出时 value 被拆分为多个 cookie：`${name}.0`、`${name}.1`...
+   * 浏览器通常限制单个 cookie 不超过 4096 字节，且每个域名的 cookie 数量有限，因此不适合存储大量数据
+   * @default 4000
+   */
+  maxSize?: number;
+}
+
+const serializeCookie = (name: string, value: string, attributes: CnCookieAttributes): string => {
+  const { maxAge, expires, path, domain, sameSite, secure } = attributes;
+  let cookie = `${name}=${value}`;
+  if (maxAge != null) {
+    cookie += `; Max-Age=${Math.floor(maxAge)}`;
+  }
+  if (expires) {
+    cookie += `; Expires=${expires.toUTCString()}`;
+  }
+  if (path) {
+    cookie += `; Path=${path}`;
+  }
+  if (domain) {
+    cookie += `; Domain=${domain}`;
+  }
+  if (sameSite) {
+    cookie += `; SameSite=${sameSite.charAt(0).toUpperCase()}${sameSite.slice(1)}`;
+  }
+  if (secure) {
+    cookie += '; Secure';
+  }
+  return cookie;
+};
+
+/**
+ * 解析 document.cookie 或请求头中的 Cookie
+ */
+const parseCookies = (cookieHeader: string): Map<string, string> => {
+  const cookies: Map<string, string> = new Map();
+  cookieHeader.split(';').forEach(pair => {
+    const index = pair.indexOf('=');
+    if (index < 0) {
+      return;
+    }
+    const name = pair.slice(0, index).trim();
+    // 同名的 cookie 以第一个为准，与浏览器按照 path 由长到短的顺序一致
+    if (name && !cookies.has(name)) {
+      cookies.set(name, pair.slice(index + 1).trim());
+    }
+  });
+  return cookies;
+};
+
+/**
+ * 读写 document.cookie 的 jar，没有 document 时（例如服务端）读取不到任何 cookie，写入被忽略
+ */
+const documentCookieJar: CnCookieJar = {
+  get: name => (typeof document === 'undefined' ? undefined : parseCookies(document.cookie).get(name)),
+  set: (name, value, attributes) => {
+    if (typeof document !== 'undefined') {
+      document.cookie = serializeCookie(name, value, attributes);
+    }
+  },
+};
+
+/**
+ * 创建服务端的 cookie jar，从请求头中的 Cookie 读取，写入的 cookie 在同一个请求中可以再次读取到，
+ * 响应前调用 getSetCookies 获取需要写入响应的 Set-Cookie 头，例如：
+ * ```ts
+ * const jar = createCookieJar(req.headers.cookie);
+ * // 创建 pinia 与 store，storage 使用 createCookieStorage({ jar })，渲染完成后
+ * await flushCnPersist();
+ * // 服务端的应用不会被卸载，释放本次请求的 state
+ * releaseCnPersist(pinia);
+ * res.setHeader('Set-Cookie', jar.getSetCookies());
+ * ```
+ */
+export const createCookieJar = (cookieHeader?: string | null): CnServerCookieJar => {
+  const cookies = parseCookies(cookieHeader ?? '');
+  const setCookies: Map<string, string> = new Map();
+  return {
+    get: name => cookies.get(name),
+    set: (name, value, attributes) => {
+      if (attributes.maxAge === 0) {
+        cookies.delete(name);
+      } else {
+        cookies.set(name, value);
+      }
+      setCookies.set(name, serializeCookie(name, value, attributes));
+    },
+    getSetCookies: () => Array.from(setCookies.values()),
+  };
+};
+
+/**
+ * 将编码后的 value 按照长度拆分，不会从 %XX 的中间拆开
+ */
+const splitEncodedValue = (value: string, chunkSize: number): Array<string> => {
+  const chunks: Array<string> = [];
+  let start = 0;
+  while (start < value.length) {
+    let end = Math.min(start + chunkSize, value.length);
+    const percentIndex = value.lastIndexOf('%', end - 1);
+    if (end < value.length && percentIndex > end - 3 && percentIndex > start) {
+      end = percentIndex;
+    }
+    chunks.push(value.slice(start, end));
+    start = end;
+  }
+  return chunks;
+};
+
+const decodeValue = (value: string): string => {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    // 不是由本 storage 写入的 cookie，按照原始字符串返回
+    return value;
+  }
+};
+
+/**
+ * 基于 cookie 的 storage，适用于需要被服务端读取的 state，例如语言、登录状态
+ * 超出单个 cookie 长度限制的 value 被拆分为多个编号的 cookie，读取时再拼接
+ * cookie 的属性对该 storage 写入的所有 cookie 生效，不同的 state 需要不同的属性时，为每个 state 创建一个 storage：
+ * ```ts
+ * cnPersist: {
+ *   states: {
+ *     locale: { storage: createCookieStorage({ maxAge: 60 * 60 * 24 * 365 }) },
+ *     token: { storage: createCookieStorage({ sameSite: 'strict', secure: true }) },
+ *   },
+ * }
+ * ```
+ * 注意：cookie 会随每个请求发送，HASH 策略的每个 Entry 都是一个 cookie，因此只适合少量的数据
+ */
+export const createCookieStorage = (options: CnCookieStorageOptions = {}): StorageLike => {
+  const { jar = documentCookieJar, maxSize = 4000, path = '/', ...rest } = options;
+  const attributes: CnCookieAttributes = { ...rest, path };
+  const removeAttributes: CnCookieAttributes = { ...attributes, maxAge: 0, expires: undefined };
+
+  const getChunkName = (name: string, index: number) => `${name}.${index}`;
+
+  /**
+   * 删除从第 from 个开始的所有分片
+   */
+  const removeChunks = (name: string, from: number) => {
+    for (let i = from; jar.get(getChunkName(name, i)) != null; i++) {
+      jar.set(getChunkName(name, i), '', removeAttributes);
+    }
+  };
+
+  const getItem = (key: string): string | null => {
+    const name = encodeURIComponent(key);
+    const value = jar.get(name);
+    if (value != null) {
+      return decodeValue(value);
+    }
+    const chunks: Array<string> = [];
+    for (
+      let chunk = jar.get(getChunkName(name, 0));
+      chunk != null;
+      chunk = jar.get(getChunkName(name, chunks.length))
+    ) {
+      chunks.push(chunk);
+    }
+    return chunks.length ? decodeValue(chunks.join('')) : null;
+  };
+
+  const setItem = (key: string, value: string) => {
+    const name = encodeURIComponent(key);
+    const encodedValue = encodeURIComponent(value);
+    if (name.length + encodedValue.length + 1 <= maxSize) {
+      jar.set(name, encodedValue, attributes);
+      removeChunks(name, 0);
+      return;
+    }
+    // 分片数量不会超过 value 的长度，按照其对应的最长的分片 name 计算分片长度，保证每个分片都不超出限制
+    const chunkSize = maxSize - getChunkName(name, encodedValue.length).length - 1;
+    if (chunkSize < 3) {
+      throw new Error(`[cn-persist-pinia-plugin] cookie name '${name}' is too long`);
+    }
+    const chunks = splitEncodedValue(encodedValue, chunkSize);
+    chunks.forEach((chunk, index) => jar.set(getChunkName(name, index), chunk, attributes));
+    if (jar.get(name) != null) {
+      jar.set(name, '', removeAttributes);
+    }
+    removeChunks(name, chunks.length);
+  };
+
+  const removeItem = (key: string) => {
+    const name = encodeURIComponent(key);
+    if (jar.get(name) != null) {
+      jar.set(name, '', removeAttributes);
+    }
+    removeChunks(name, 0);
+  };
+
+  return { getItem, setItem, removeItem };
+};
@@ -0,0 +1,270 @@
+import { App, onScopeDispose } from 'vue';
+import {
+  App as DevtoolsApp,
+  CustomInspectorNode,
+  CustomInspectorState,
+  DevtoolsPluginApi,
+  setupDevtoolsPlugin,
+} from '@vue/devtools-api';
+import {
+  AsyncStorageLike,
+  CnPersistHooks,
+  CnPersistResultContext,
+  CnStatePersistContext,
+  CnStorePersistContext,
+  StateKeyType,
+} from './types';
+import { getByteSize, maybeAll, maybeThen } from './util';
+import { CnStorageEntry, getHashEntryKey, getStateStorageEntries } from './storage';
+import { clearPersistedState, flushPersistEvents, hasPendingPersistEvent } from './persist';
+import { restoreState } from './restore';
+
+const DEVTOOLS_ID = 'cn-persist-pinia-plugin';
+const TIMELINE_COLOR = 0x42b883;
+const TAG_TEXT_COLOR = 0xffffff;
+const TAG_BACKGROUND_COLOR = 0x42b883;
+
+/**
+ * 一个 app 中启用了持久化的 store，key 为 store 的 id，值为 store 的所有 state 的上下文
+ */
+type CnDevtoolsStores = Map<string, Map<StateKeyType, CnStatePersistContext<unknown>>>;
+
+interface CnDevtoolsRegistry {
+  stores: CnDevtoolsStores;
+  /**
+   * Devtools 打开后才会执行插件的 setup，此前为 undefined
+   */
+  api?: DevtoolsPluginApi<Record<string, unknown>>;
+}
+
+/**
+ * 已经注册了 Devtools 插件的 app，每个 app 只注册一次
+ */
+const devtoolsRegistries: WeakMap<App, CnDevtoolsRegistry> = new WeakMap();
+
+/**
+ * state 节点的 id，store 节点的 id 为 store 的 id
+ */
+const getStateNodeId = (storeId: string, stateKey: string) => `${storeId}/${stateKey}`;
+
+/**
+ * 根据节点 id 找到对应的 state，store 节点返回 store 的所有 state
+ */
+const findNodeStates = (stores: CnDevtoolsStores, nodeId: string): Array<CnStatePersistContext<unknown>> => {
+  const statePersistContextMap = stores.get(nodeId);
+  if (statePersistContextMap) {
+    return Array.from(statePersistContextMap.values());
+  }
+  for (const [storeId, statePersistContextMap_] of stores) {
+    for (const statePersistContext of statePersistContextMap_.values()) {
+      if (getStateNodeId(storeId, statePersistContext.stateKey) === nodeId) {
+        return [statePersistContext];
+      }
+    }
+  }
+  return [];
+};
+
+const getStorageName = (storage: AsyncStorageLike): string => {
+  try {
+    if (storage === window.localStorage) {
+      return 'localStorage';
+    }
+    if (storage === window.sessionStorage) {
+      return 'sessionStorage';
+    }
+  } catch (e) {
+    // 没有访问 localStorage 的权限时视为自定义 storage
+  }
+  return 'custom';
+};
+
+/**
+ * 读取 state 的全部持久化数据的 key 与字节数，不存在的 key 不返回
+ */
+const getStoredSizes = (statePersistContext: CnStatePersistContext<unknown>) => {
+  const { storageAccessor } = statePersistContext.storePersistContext;
+  return maybeThen(getStateStorageEntries(storageAccessor, statePersistContext), entries => {
+    const values = maybeAll(entries.map(([storage, key]) => storageAccessor.getItem(storage, key)));
+    return maybeThen(values, values_ => {
+      const sizes: Array<[CnStorageEntry, number]> = [];
+      values_.forEach((value, index) => {
+        if (value != null) {
+          sizes.push([entries[index], getByteSize(value)]);
+        }
+      });
+      return sizes;
+    });
+  });
+};
+
+const produceInspectorState = async (
+  statePersistContexts: Array<CnStatePersistContext<unknown>>,
+): Promise<CustomInspectorState> => {
+  const inspectorState: CustomInspectorState = {};
+  for (const statePersistContext of statePersistContexts) {
+    const {
+      stateKey,
+      persistKey,
+      storage,
+      statePersistOptions: { policy },
+    } = statePersistContext;
+    const sizes = await getStoredSizes(statePersistContext);
+    inspectorState[stateKey] = [
+      { key: 'policy', value: policy },
+      { key: 'storage', value: getStorageName(storage) },
+      { key: 'persistKey', value: persistKey },
+      { key: 'pending', value: hasPendingPersistEvent(statePersistContext) },
+      { key: 'size', value: sizes.reduce((total, [, size]) => total + size, 0) },
+      { key: 'storageKeys', value: Object.fromEntries(sizes.map(([[, key], size]) => [key, size])) },
+    ];
+    if (policy == 'HASH') {
+      const entryPrefix = getHashEntryKey(storage, persistKey, '');
+      const hashEntryCount = sizes.filter(([[, key]]) => key.startsWith(entryPrefix)).length;
+      inspectorState[stateKey].push({ key: 'hashEntries', value: hashEntryCount });
+    }
+  }
+  return inspectorState;
+};
+
+const produceInspectorTree = (stores: CnDevtoolsStores, filter: string): Array<CustomInspectorNode> => {
+  const rootNodes: Array<CustomInspectorNode> = [];
+  stores.forEach((statePersistContextMap, storeId) => {
+    if (filter && !storeId.toLowerCase().includes(filter.toLowerCase())) {
+      return;
+    }
+    rootNodes.push({
+      id: storeId,
+      label: storeId,
+      children: Array.from(statePersistContextMap.values(), ({ stateKey, statePersistOptions: { policy } }) => ({
+        id: getStateNodeId(storeId, stateKey),
+        label: stateKey,
+        tags: [{ label: policy!, textColor: TAG_TEXT_COLOR, backgroundColor: TAG_BACKGROUND_COLOR }],
+      })),
+    });
+  });
+  return rootNodes;
+};
+
+const getDevtoolsRegistry = (app: App): CnDevtoolsRegistry => {
+  const existingRegistry = devtoolsRegistries.get(app);
+  if (existingRegistry) {
+    return existingRegistry;
+  }
+  const registry: CnDevtoolsRegistry = { stores: new Map() };
+  devtoolsRegistries.set(app, registry);
+  const { stores } = registry;
+  setupDevtoolsPlugin(
+    {
+      id: DEVTOOLS_ID,
+      label: 'CN Persist',
+      packageName: 'cn-persist-pinia-plugin',
+      // Devtools 的 App 类型是宽松的类型，直接使用 Vue 的 App 类型会导致类型推导过深
+      app: app as DevtoolsApp,
+    },
+    api => {
+      registry.api = api;
+      const refresh = () => {
+        api.sendInspectorTree(DEVTOOLS_ID);
+        api.sendInspectorState(DEVTOOLS_ID);
+      };
+      const produceNodeAction = (action: (statePersistContexts: Array<CnStatePersistContext<unknown>>) => unknown) => {
+        return async (nodeId: string) => {
+          await action(findNodeStates(stores, nodeId));
+          refresh();
+        };
+      };
+      api.addTimelineLayer({ id: DEVTOOLS_ID, label: 'CN Persist', color: TIMELINE_COLOR });
+      api.addInspector({
+        id: DEVTOOLS_ID,
+        label: 'CN Persist',
+        icon: 'storage',
+        treeFilterPlaceholder: 'Search stores',
+        nodeActions: [
+          {
+            icon: 'restore',
+            tooltip: 'Re-hydrate from storage',
+            action: produceNodeAction(statePersistContexts => maybeAll(statePersistContexts.map(restoreState))),
+          },
+          {
+            icon: 'save',
+            tooltip: 'Flush pending changes',
+            action: produceNodeAction(statePersistContexts => {
+              return Promise.all(
+                statePersistContexts.map(({ persistKey, storePersistContext: { engine } }) =>
+                  flushPersistEvents(engine, [persistKey]),
+                ),
+              );
+            }),
+          },
+          {
+            icon: 'delete',
+            tooltip: 'Clear persisted data',
+            action: produceNodeAction(statePersistContexts => maybeAll(statePersistContexts.map(clearPersistedState))),
+          },
+        ],
+      });
+      api.on.getInspectorTree(payload => {
+        if (payload.app === app && payload.inspectorId === DEVTOOLS_ID) {
+          payload.rootNodes = produceInspectorTree(stores, payload.filter);
+        }
+      });
+      api.on.getInspectorState(async payload => {
+        if (payload.app === app && payload.inspectorId === DEVTOOLS_ID) {
+          payload.state = await produceInspectorState(findNodeStates(stores, payload.nodeId));
+        }
+      });
+    },
+  );
+  return registry;
+};
+
+/**
+ * 持久化与恢复结束时在 Devtools 的时间线中添加事件，并刷新检查器中的数据
+ */
+const produceDevtoolsHooks = (registry: CnDevtoolsRegistry): CnPersistHooks => {
+  const addTimelineEvent = (title: string, context: CnPersistResultContext, error?: unknown) => {
+    const { api } = registry;
+    if (!api) {
+      return;
+    }
+    api.addTimelineEvent({
+      layerId: DEVTOOLS_ID,
+      event: {
+        time: api.now(),
+        title,
+        subtitle: context.persistKey,
+        data: error === undefined ? context : { ...context, error },
+        logType: error === undefined ? 'default' : 'error',
+      },
+    });
+    api.sendInspectorState(DEVTOOLS_ID);
+  };
+  return {
+    onPersisted: context => addTimelineEvent(context.type, context),
+    onPersistError: (error, _, context) => addTimelineEvent(context.type, context, error),
+    onRestored: context => addTimelineEvent('RESTORE', context),
+    onRestoreError: (error, _, context) => addTimelineEvent('RESTORE', context, error),
+  };
+};
+
+/**
+ * 在 Vue Devtools 的自定义检查器中展示 store 的持久化数据，并在时间线中记录每一次持久化与恢复
+ * 需要在 store 的 effect scope 中调用，store 销毁时自动从检查器中移除
+ */
+export const inspectInDevtools = (
+  app: App,
+  storePersistContext: CnStorePersistContext,
+  statePersistContextMap: Map<StateKeyType, CnStatePersistContext<unknown>>,
+) => {
+  const registry = getDevtoolsRegistry(app);
+  const { stores } = registry;
+  const { storeId } = storePersistContext;
+  stores.set(storeId, statePersistContextMap);
+  storePersistContext.hooks.push(produceDevtoolsHooks(registry));
+  registry.api?.sendInspectorTree(DEVTOOLS_ID);
+  onScopeDispose(() => {
+    stores.delete(storeId);
+    registry.api?.sendInspectorTree(DEVTOOLS_ID);
+  });
+};
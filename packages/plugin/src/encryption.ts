@@ -0,0 +1,110 @@
+import { CnStateDeserializer, CnStateSerializer } from './types';
+
+/**
+ * 加密后的持久化值的前缀，恢复时据此判断值是否已加密，
+ * 没有前缀的值视为开启加密之前持久化的明文，直接交给 deserialize
+ */
+const ENCRYPTED_PREFIX = 'cn-aes-gcm:';
+const IV_LENGTH = 12;
+
+export interface CnEncryptionOptions {
+  /**
+   * 密钥提供者，返回 AES-GCM 的 CryptoKey（usages 需包含 encrypt 与 decrypt），或 16、24、32 字节的原始密钥
+   * 只会调用一次，返回的 Promise reject 时，下次加解密会重新调用
+   */
+  key: () => Promise<CryptoKey | BufferSource>;
+}
+
+const cryptoKeyCache: WeakMap<CnEncryptionOptions, Promise<CryptoKey>> = new WeakMap();
+
+const isBufferSource = (key: CryptoKey | BufferSource): key is BufferSource => {
+  return key instanceof ArrayBuffer || ArrayBuffer.isView(key);
+};
+
+const getCryptoKey = (encryption: CnEncryptionOptions): Promise<CryptoKey> => {
+  let cryptoKey = cryptoKeyCache.get(encryption);
+  if (!cryptoKey) {
+    cryptoKey = encryption.key().then(key => {
+      if (isBufferSource(key)) {
+        return crypto.subtle.importKey('raw', key, 'AES-GCM', false, ['encrypt', 'decrypt']);
+      }
+      return key;
+    });
+    cryptoKey.catch(() => cryptoKeyCache.delete(encryption));
+    cryptoKeyCache.set(encryption, cryptoKey);
+  }
+  return cryptoKey;
+};
+
+const bytesToBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  // 分段转换，避免参数过多导致栈溢出
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+const base64ToBytes = (base64: string): Uint8Array => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
+
+export const encrypt = async (plainText: string, encryption: CnEncryptionOptions): Promise<string> => {
+  const cryptoKey = await getCryptoKey(encryption);
+  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+  const cipher = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, cryptoKey, new TextEncoder().encode(plainText));
+  const bytes = new Uint8Array(IV_LENGTH + cipher.byteLength);
+  bytes.set(iv);
+  bytes.set(new Uint8Array(cipher), IV_LENGTH);
+  return ENCRYPTED_PREFIX + bytesToBase64(bytes);
+};
+
+export const decrypt = async (persistedValue: string, encryption: CnEncryptionOptions): Promise<string> => {
+  if (!persistedValue.startsWith(ENCRYPTED_PREFIX)) {
+    return persistedValue;
+  }
+  const cryptoKey = await getCryptoKey(encryption);
+  const bytes = base64ToBytes(persistedValue.slice(ENCRYPTED_PREFIX.length));
+  const plain = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: bytes.subarray(0, IV_LENGTH) },
+    cryptoKey,
+    bytes.subarray(IV_LENGTH),
+  );
+  return new TextDecoder().decode(plain);
+};
+
+/**
+ * 包装序列化器，对序列化后的值进行加密，序列化器返回 null 时仍然返回 null，即不持久化
+ */
+export const produceEncryptSerialize = (
+  serialize: CnStateSerializer,
+  encryption: CnEncryptionOptions,
+): CnStateSerializer => {
+  return async function (newValue, context) {
+    const persistValue = await serialize.call(this, newValue, context);
+    return persistValue == null ? null : encrypt(persistValue, encryption);
+  };
+};
+
+/**
+ * 包装反序列化器，先解密再反序列化，解密失败（例如密钥已更换）时返回 null，即不恢复
+ */
+export const produceDecryptDeserialize = (
+  deserialize: CnStateDeserializer,
+  encryption: CnEncryptionOptions,
+  debug: boolean,
+): CnStateDeserializer => {
+  return persistedValue => {
+    return decrypt(persistedValue, encryption).then(deserialize, e => {
+      if (debug) {
+        console.error('[cn-persist-pinia-plugin] decrypt', e);
+      }
+      return null;
+    });
+  };
+};
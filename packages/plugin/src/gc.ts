@@ -0,0 +1,225 @@
+import { reactive } from 'vue';
+import { AsyncStorageLike, CnListMeta, CnStatePersistContext, MaybePromise } from './types';
+import { getHashIndexStorage, getPersistSegmentKey, getPersistVersionKey, maybeAll, maybeThen } from './util';
+import {
+  getHashEntryKey,
+  getRegisteredStates,
+  getScannedStorages,
+  isHashScanned,
+  produceStorageAccessor,
+} from './storage';
+import { hasPendingPersistEvent } from './persist';
+
+export interface CnGarbageCollectOptions {
+  /**
+   * 只检查 storage key 以该前缀开头的数据
+   * @default 'cn-'
+   */
+  prefix?: string;
+  /**
+   * 除了已创建的 store 的 state 所使用的 storage 之外，还需要扫描的 storage，只能扫描可以枚举 key 的 storage
+   * @default [localStorage]
+   */
+  storages?: Array<AsyncStorageLike>;
+  /**
+   * 为 true 时只报告孤立的 key，不删除
+   * @default true
+   */
+  dryRun?: boolean;
+  /**
+   * 为 true 时等到浏览器空闲（requestIdleCallback）后再执行，不支持时等到下一个宏任务
+   * @default false
+   */
+  idle?: boolean;
+  /**
+   * 读写 storage 出错时是否打印日志
+   * @default false
+   */
+  debug?: boolean;
+}
+
+/**
+ * 孤立的 key，即不属于任何已创建的 store 的 state 的持久化数据
+ */
+export interface CnOrphanedKey {
+  storage: AsyncStorageLike;
+  key: string;
+}
+
+export interface CnGarbageCollectResult {
+  orphans: Array<CnOrphanedKey>;
+  /**
+   * 是否已经删除了孤立的 key，dryRun 为 true 时为 false
+   */
+  removed: boolean;
+}
+
+const whenIdle = (): Promise<void> => {
+  return new Promise(resolve => {
+    if (typeof requestIdleCallback === 'function') {
+      requestIdleCallback(() => resolve());
+    } else {
+      setTimeout(resolve, 0);
+    }
+  });
+};
+
+/**
+ * 找到 storage key 所属的持久化 key，取匹配的最长的持久化 key，返回持久化 key 之后的部分
+ * 持久化 key 与 HASH Entry、版本号、LIST 分段之间分别使用 '-'（扫描的 storage 中为 '\u001f'）、'@'、'#' 连接
+ */
+const findOwner = (persistKeys: Array<string>, key: string): [string, string] | null => {
+  let owner: [string, string] | null = null;
+  persistKeys.forEach(persistKey => {
+    if (!key.startsWith(persistKey) || (owner && owner[0].length >= persistKey.length)) {
+      return;
+    }
+    const suffix = key.slice(persistKey.length);
+    if (suffix === '' || ['-', '\u001f', '@', '#'].includes(suffix[0])) {
+      owner = [persistKey, suffix];
+    }
+  });
+  return owner;
+};
+
+/**
+ * HASH 策略的 state 当前的所有 hashKey
+ * setup store 的 storeState[stateKey] 是 Ref，通过 reactive 解包
+ */
+const getStateHashKeys = ({ stateKey, storePersistContext: { storeState } }: CnStatePersistContext<unknown>) => {
+  const hashValue = reactive(storeState)[stateKey];
+  if (hashValue instanceof Map) {
+    return new Set(Array.from(hashValue.keys(), String));
+  }
+  return new Set(hashValue && typeof hashValue === 'object' ? Object.keys(hashValue) : []);
+};
+
+/**
+ * storage key 是否为 state 当前的持久化数据
+ * storage 可以枚举 key 时，HASH 策略没有 key 集合，以 state 当前的 Entry 为准，否则持久化 key 为 key 集合
+ * LIST 策略只保留分段信息中的分段，其余分段为分段数变少时遗留的数据
+ */
+const isStateKey = (
+  statePersistContext: CnStatePersistContext<unknown>,
+  storage: AsyncStorageLike,
+  suffix: string,
+): MaybePromise<boolean> => {
+  const {
+    storage: storage_,
+    persistKey,
+    statePersistOptions: { policy },
+    storePersistContext: { storageAccessor },
+  } = statePersistContext;
+  const key = persistKey + suffix;
+  if (policy == 'HASH' && suffix === '' && !isHashScanned(storage_)) {
+    return storage === getHashIndexStorage(storage_);
+  }
+  if (storage !== storage_) {
+    return false;
+  }
+  if (key === getPersistVersionKey(persistKey)) {
+    return true;
+  }
+  if (policy == 'HASH') {
+    return (
+      key.startsWith(getHashEntryKey(storage_, persistKey, '')) &&
+      getStateHashKeys(statePersistContext).has(suffix.slice(1))
+    );
+  }
+  if (suffix === '') {
+    return true;
+  }
+  if (policy != 'LIST' || suffix[0] !== '#') {
+    return false;
+  }
+  return maybeThen(storageAccessor.getItem(storage_, persistKey), persistedValue => {
+    if (!persistedValue) {
+      return false;
+    }
+    const listMeta: CnListMeta = JSON.parse(persistedValue);
+    const segmentCount = Math.ceil(listMeta.length / listMeta.segmentSize);
+    for (let segmentIndex = 0; segmentIndex < segmentCount; segmentIndex++) {
+      if (key === getPersistSegmentKey(persistKey, segmentIndex)) {
+        return true;
+      }
+    }
+    return false;
+  });
+};
+
+/**
+ * 是否为孤立的 key，多个 pinia 实例使用同一个持久化 key 时，只要属于其中一个 state 就不是孤立的 key
+ * 还有未完成的持久化的 state 的数据可能正在变化，视为有效的数据
+ */
+const isOrphan = (
+  statePersistContextsByKey: Map<string, Array<CnStatePersistContext<unknown>>>,
+  storage: AsyncStorageLike,
+  key: string,
+): MaybePromise<boolean> => {
+  const owner = findOwner(Array.from(statePersistContextsByKey.keys()), key);
+  if (!owner) {
+    return true;
+  }
+  const [persistKey, suffix] = owner;
+  const statePersistContexts = statePersistContextsByKey.get(persistKey)!;
+  const settled = statePersistContexts.every(statePersistContext => {
+    return (
+      !hasPendingPersistEvent(statePersistContext) &&
+      !statePersistContext.storePersistContext.engine.persistingEvents.has(persistKey)
+    );
+  });
+  if (!settled) {
+    return false;
+  }
+  const owned = maybeAll(
+    statePersistContexts.map(statePersistContext => isStateKey(statePersistContext, storage, suffix)),
+  );
+  return maybeThen(owned, owned_ => !owned_.includes(true));
+};
+
+/**
+ * 扫描 storage，找到不属于任何已创建的 store 的 state 的持久化数据，例如重命名了 state 或删除了 store 后遗留的数据，
+ * 分段数变少后遗留的 LIST 分段，以及 HASH 整体替换被中断后遗留的、已经不在 state 中的 Entry
+ * 只能扫描可以枚举 key 的 storage，见：{@link AsyncStorageLike.keys}
+ *
+ * 注意：以 state 当前的值为准，因此需要在所有使用持久化的 store 都已经创建并恢复完成后调用，
+ * 否则还未创建的 store 的数据也会被视为孤立的 key，例如在应用挂载后调用，或者使用 idle 选项在浏览器空闲时调用
+ */
+export const collectCnPersistGarbage = async ({
+  prefix = 'cn-',
+  storages,
+  dryRun = true,
+  idle = false,
+  debug = false,
+}: CnGarbageCollectOptions = {}): Promise<CnGarbageCollectResult> => {
+  if (idle) {
+    await whenIdle();
+  }
+  // 持久化 key 不以 prefix 开头的 state 也可能拥有以 prefix 开头的 HASH Entry，因此检查所有 state
+  const statePersistContexts = getRegisteredStates('');
+  // 恢复完成前 state 的值还不是持久化数据，HASH 的 Entry 会被误判为孤立的 key
+  await Promise.all(statePersistContexts.map(({ storePersistContext }) => storePersistContext.hydrated));
+  const statePersistContextsByKey: Map<string, Array<CnStatePersistContext<unknown>>> = new Map();
+  statePersistContexts.forEach(statePersistContext => {
+    const { persistKey } = statePersistContext;
+    if (!statePersistContextsByKey.has(persistKey)) {
+      statePersistContextsByKey.set(persistKey, []);
+    }
+    statePersistContextsByKey.get(persistKey)!.push(statePersistContext);
+  });
+  const { getKeys, removeItem } = produceStorageAccessor(debug);
+  const orphans: Array<CnOrphanedKey> = [];
+  for (const storage of getScannedStorages(statePersistContexts, storages)) {
+    const keys = (await getKeys(storage)).filter(key => key.startsWith(prefix));
+    const orphaned = await maybeAll(keys.map(key => isOrphan(statePersistContextsByKey, storage, key)));
+    keys.forEach((key, index) => {
+      if (orphaned[index]) {
+        orphans.push({ storage, key });
+      }
+    });
+  }
+  if (!dryRun) {
+    await maybeAll(orphans.map(({ storage, key }) => removeItem(storage, key)));
+  }
+  return { orphans, removed: !dryRun };
+};
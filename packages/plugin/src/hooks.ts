@@ -0,0 +1,24 @@
+import { CnPersistHooks, CnStorePersistContext } from './types';
+
+type CnHookName = keyof CnPersistHooks;
+type CnHookArgs<K extends CnHookName> = Parameters<NonNullable<CnPersistHooks[K]>>;
+
+/**
+ * 依次调用全局的钩子与 store 的钩子，钩子抛出的异常只在 debug 时打印日志，不影响持久化与恢复
+ */
+export const callHooks = <K extends CnHookName>(
+  { hooks, debug }: CnStorePersistContext,
+  name: K,
+  ...args: CnHookArgs<K>
+) => {
+  hooks.forEach(hooks_ => {
+    const hook = hooks_[name] as ((...args_: CnHookArgs<K>) => void) | undefined;
+    try {
+      hook?.(...args);
+    } catch (e) {
+      if (debug) {
+        console.error(`[cn-persist-pinia-plugin] ${name}`, e);
+      }
+    }
+  });
+};
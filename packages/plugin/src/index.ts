@@ -1,12 +1,62 @@
 import { createCnPersistPiniaPlugin } from './plugin';
+import { createIndexedDBStorage } from './indexeddb';
+import { createCookieJar, createCookieStorage } from './cookie';
+import { clearCnPersist, flushCnPersist } from './persist';
+import { getCnPersistStats, resetCnPersistStats } from './stats';
+import { collectCnPersistGarbage } from './gc';
+import { releaseCnPersist } from './storage';
+import { exportCnPersistSnapshot, importCnPersistSnapshot } from './snapshot';
 
 export {
   type CnPersistFactoryOptions,
   type CnStateSerializer,
+  type CnSerializeContext,
   type CnStateDeserializer,
   type CnDeserializePostHandler,
+  type CnStateMigration,
+  type CnStateMigrations,
+  type CnExpireHandler,
   type StorageLike,
+  type AsyncStorageLike,
+  type CnCrossTabMode,
+  type CnSerializerType,
+  type CnPersistHooks,
+  type CnPersistHookContext,
+  type CnPersistResultContext,
+  type CnRestoreErrorHandler,
+  type CnClearPersistOptions,
 } from './types';
+export { type CnIndexedDBStorageOptions } from './indexeddb';
+export {
+  type CnCookieStorageOptions,
+  type CnCookieAttributes,
+  type CnCookieJar,
+  type CnServerCookieJar,
+} from './cookie';
+export { type CnEncryptionOptions } from './encryption';
+export { type CnCompressionOptions } from './compression';
+export {
+  type CnPersistStats,
+  type CnStorePersistStats,
+  type CnStatePersistStats,
+  type CnPersistMetrics,
+} from './stats';
+export { type CnGarbageCollectOptions, type CnGarbageCollectResult, type CnOrphanedKey } from './gc';
+export { type CnPersistSnapshot, type CnPersistSnapshotState, type CnImportSnapshotOptions } from './snapshot';
+export { type CnQuotaOptions, type CnEvictionPolicy, type CnEvictHandler, type CnPersistErrorHandler } from './quota';
 
-export { createCnPersistPiniaPlugin };
+export {
+  createCnPersistPiniaPlugin,
+  createIndexedDBStorage,
+  createCookieStorage,
+  createCookieJar,
+  flushCnPersist,
+  clearCnPersist,
+  releaseCnPersist,
+  collectCnPersistGarbage,
+  exportCnPersistSnapshot,
+  importCnPersistSnapshot,
+  getCnPersistStats,
+  resetCnPersistStats,
+};
 export default createCnPersistPiniaPlugin();
@@ -0,0 +1,133 @@
+import { AsyncStorageLike } from './types';
+
+export interface CnIndexedDBStorageOptions {
+  /**
+   * IndexedDB 数据库名
+   * @default 'cn-persist-pinia-plugin'
+   */
+  dbName?: string;
+  /**
+   * 存储 STRING 策略的 state 与 HASH 策略的每个 Entry 的 object store 名
+   * @default 'states'
+   */
+  storeName?: string;
+  /**
+   * 存储 HASH 策略的 key 集合（hash index）的 object store 名
+   * @default 'hash-indexes'
+   */
+  hashIndexStoreName?: string;
+  /**
+   * IDBFactory，缺省使用全局的 indexedDB
+   * 在 Node 环境下可以传入内存实现，例如 fake-indexeddb
+   */
+  indexedDB?: IDBFactory;
+}
+
+const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const promisifyTransaction = (transaction: IDBTransaction): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+/**
+ * 基于 IndexedDB 的异步 storage
+ *
+ * 每个持久化 key 对应 object store 中的一条记录，
+ * 因此 HASH 策略的每个 Entry 都是一条独立的记录，不会受到 localStorage 的容量限制
+ * HASH 策略的 key 集合存储在单独的 object store 中，通过 {@link AsyncStorageLike.hashIndex} 提供给插件
+ */
+export const createIndexedDBStorage = (options: CnIndexedDBStorageOptions = {}): AsyncStorageLike => {
+  const {
+    dbName = 'cn-persist-pinia-plugin',
+    storeName = 'states',
+    hashIndexStoreName = 'hash-indexes',
+    indexedDB: factory,
+  } = options;
+
+  const objectStoreNames = [storeName, hashIndexStoreName];
+
+  /**
+   * 打开数据库，version 为 undefined 时打开当前版本
+   * 缺少 object store 时（例如已有的数据库使用了其它 storeName），将版本号加一，在升级时创建
+   */
+  const open = (version?: number): Promise<IDBDatabase> => {
+    return new Promise((resolve, reject) => {
+      const request = (factory ?? indexedDB).open(dbName, version);
+      request.onupgradeneeded = () => {
+        const db_ = request.result;
+        objectStoreNames.forEach(objectStoreName => {
+          if (!db_.objectStoreNames.contains(objectStoreName)) {
+            db_.createObjectStore(objectStoreName);
+          }
+        });
+      };
+      request.onsuccess = () => {
+        const db_ = request.result;
+        if (objectStoreNames.every(objectStoreName => db_.objectStoreNames.contains(objectStoreName))) {
+          // 其它连接需要升级数据库时关闭当前连接，下次读写时重新打开，避免阻塞升级
+          db_.onversionchange = () => {
+            db_.close();
+            db = undefined;
+          };
+          resolve(db_);
+          return;
+        }
+        db_.close();
+        open(db_.version + 1).then(resolve, reject);
+      };
+      request.onerror = () => reject(request.error);
+    });
+  };
+
+  // 延迟到第一次读写时才打开数据库，避免在不支持 IndexedDB 的环境中创建 storage 时就抛异常
+  let db: Promise<IDBDatabase> | undefined;
+  const openDB = () => {
+    if (!db) {
+      const opening = open();
+      db = opening;
+      // 打开失败时不缓存，下次读写时重新打开
+      opening.catch(() => {
+        if (db === opening) {
+          db = undefined;
+        }
+      });
+    }
+    return db;
+  };
+
+  const produceObjectStoreStorage = (objectStoreName: string): AsyncStorageLike => {
+    const read = (key: string) => {
+      return openDB().then(db_ => {
+        const objectStore = db_.transaction(objectStoreName, 'readonly').objectStore(objectStoreName);
+        return promisifyRequest<string | undefined>(objectStore.get(key));
+      });
+    };
+    // 写操作在事务完成后才 resolve，保证数据已经提交
+    const write = (operate: (objectStore: IDBObjectStore) => void) => {
+      return openDB().then(db_ => {
+        const transaction = db_.transaction(objectStoreName, 'readwrite');
+        operate(transaction.objectStore(objectStoreName));
+        return promisifyTransaction(transaction);
+      });
+    };
+    return {
+      getItem: key => read(key).then(value => value ?? null),
+      setItem: (key, value) => write(objectStore => objectStore.put(value, key)),
+      removeItem: key => write(objectStore => objectStore.delete(key)),
+    };
+  };
+
+  return {
+    ...produceObjectStoreStorage(storeName),
+    hashIndex: produceObjectStoreStorage(hashIndexStoreName),
+  };
+};
@@ -1,81 +1,376 @@
+import { reactive, toRaw } from 'vue';
 import { PiniaCustomStateProperties, StateTree, StoreOnActionListener } from 'pinia';
 import {
+  AsyncStorageLike,
+  CnClearPersistOptions,
+  CnPersistEngine,
   CnPersistEvent,
   CnPersistEventType,
+  CnPersistHookContext,
+  CnPersistResultContext,
+  CnSerializeContext,
+  CnStatePersistContext,
   CnStateSerializer,
   CnListenerPersist,
-  StorageLike,
+  CnListenerPrePersist,
+  CnListMeta,
+  MaybePromise,
   StateKeyType,
   StateLevelPersist,
 } from './types';
-import { getPersistHashKey, debounce } from './util';
-import { getItem } from './restore';
-
-export let setItem: (storage: StorageLike, key: string, value: string) => void;
-export const setSetItem = (debug: boolean) => {
-  setItem = (storage: StorageLike, key: string, value: string) => {
-    try {
-      storage.setItem(key, value);
-    } catch (e) {
-      if (debug) {
-        console.error(`[cn-persist-pinia-plugin] StorageLike.setItem('${key}', '${value}')`, e);
-      }
-    }
+import {
+  callSerialize,
+  getByteSize,
+  getHashIndexStorage,
+  getPersistVersionKey,
+  debounce,
+  DEFAULT_SEGMENT_SIZE,
+  getPersistSegmentKey,
+  getSerializedString,
+  isPromise,
+  maybeAll,
+  maybeThen,
+} from './util';
+import { getRestoredValues, isRestoredValue, isRestoringMap } from './restore';
+import {
+  CnStorageAccessor,
+  getHashKeys,
+  getRegisteredStates,
+  getScannedStorages,
+  getHashEntryKey,
+  isHashScanned,
+  produceStorageAccessor,
+  removeStateData,
+} from './storage';
+import { CnQuotaManager } from './quota';
+import { callHooks } from './hooks';
+import { CnPersistMetrics, recordFlush, recordPersistMetrics } from './stats';
+
+/**
+ * 创建插件实例的运行时状态，见：{@link CnPersistEngine}
+ *
+ * @param globalDebounce 全局防抖延迟，store 或 state 没有配置 debounce 时使用
+ * @param globalMaxWait 全局最长等待时间，store 或 state 没有配置 maxWait 时使用
+ */
+export const produceCnPersistEngine = (
+  globalDebounce: number,
+  globalMaxWait?: number,
+  quotaManager?: CnQuotaManager,
+): CnPersistEngine => {
+  return {
+    globalDebounce,
+    globalMaxWait,
+    debouncedConsumPersistEvents: new Map(),
+    persistBuffer: {},
+    persistingEvents: new Map(),
+    restoredValues: new Map(),
+    restoringMapPersistKeys: new Set(),
+    registeredStates: new Map(),
+    quotaManager,
   };
 };
 
-let debouncedConsumPersistEvent: () => void;
 /**
- * 自定义全局延迟时间
+ * 缓冲区中有事件或有正在进行的异步写入的插件实例，用于 {@link flushCnPersist}
+ * 没有待持久化的数据时移除，避免持有已经不再使用的插件实例，例如 SSR 时每个请求创建的插件实例
  */
-export const setGlobalDebounce = (globalDebounce: number) => {
-  debouncedConsumPersistEvent = produceDebouncedConsumPersistEvent(globalDebounce);
+const pendingEngines: Set<CnPersistEngine> = new Set();
+
+const releaseEngine = (engine: CnPersistEngine) => {
+  if (Object.keys(engine.persistBuffer).length < 1 && engine.persistingEvents.size < 1) {
+    pendingEngines.delete(engine);
+  }
 };
+
 /**
- * 防抖持久化器的工厂
- * 使用工厂模式，以便可以自定义全局防抖延迟
- * globalDebounce 小于等于 0 时，禁用防抖
+ * 防抖持久化器的工厂，防抖持久化器只持久化防抖配置相同的事件
+ * wait 小于等于 0 时，禁用防抖
  */
-const produceDebouncedConsumPersistEvent = (globalDebounce: number) => {
-  if (globalDebounce <= 0) {
-    return consumPersistEvent;
+const produceDebouncedConsumPersistEvent = (
+  engine: CnPersistEngine,
+  debounceKey: string,
+  wait: number,
+  maxWait?: number,
+) => {
+  const consum = () => consumPersistEvent(engine, debounceKey);
+  if (wait <= 0) {
+    return consum;
   }
-  return debounce(consumPersistEvent, globalDebounce);
+  return debounce(consum, wait, maxWait);
 };
 
 /**
- * 对持久化操作进行防抖，整体防抖，而不是为每个模块或字段防抖
- * 即在用户的每次操作的粒度上进行防抖
- * 这样可以避免启动太多定时器，也可以降低硬盘 I/O 的频率
- *
- * persistBuffer 缓冲区，临时存储在防抖期间积攒的需要持久化的数据
- * 即防抖后，消费者的消费操作的时间间隔不会超过防抖延迟，且延迟还会续杯
- * 等价于消费者速度慢了，缓冲区解决消费者与生产者速度不匹配问题
- * persistBuffer 的 Key 为持久化 Key，对于同一个 Key，只需要持久化最后的值即可
+ * 返回 state 的防抖配置对应的 key，state 的配置优先，其次是 store 的配置，最后是全局配置
+ * 防抖配置相同的 state 共用同一个防抖持久化器，即共用同一个定时器
  */
-let persistBuffer: Record<string, CnPersistEvent> = {};
+const getDebounceKey = ({
+  statePersistOptions: { debounce, maxWait },
+  storePersistContext: { engine },
+}: CnStatePersistContext<unknown>) => {
+  const { globalDebounce, globalMaxWait, debouncedConsumPersistEvents } = engine;
+  const wait = debounce ?? globalDebounce;
+  const maxWait_ = maxWait ?? globalMaxWait;
+  const debounceKey = `${wait}:${maxWait_ ?? ''}`;
+  if (!debouncedConsumPersistEvents.has(debounceKey)) {
+    debouncedConsumPersistEvents.set(
+      debounceKey,
+      produceDebouncedConsumPersistEvent(engine, debounceKey, wait, maxWait_),
+    );
+  }
+  return debounceKey;
+};
 
 /**
- * 持久化器，持久化逻辑的实现
+ * 调用事件的防抖配置对应的防抖持久化器
  */
-const consumPersistEvent = () => {
+const debouncedConsumPersistEvent = ({ storePersistContext: { engine }, debounceKey }: CnPersistEvent) => {
+  engine.debouncedConsumPersistEvents.get(debounceKey)!();
+};
+
+/**
+ * 持久化器，持久化逻辑的实现，只持久化防抖配置为 debounceKey 的事件
+ * 同步 storage 时同步完成，异步 storage 时返回在所有写入完成后 resolve 的 Promise
+ */
+const consumPersistEvent = (engine: CnPersistEngine, debounceKey: string): MaybePromise<void> => {
+  const { persistBuffer } = engine;
+  const events: Record<string, CnPersistEvent> = {};
   Object.entries(persistBuffer).forEach(([persistKey, cnPersistEvent]) => {
-    switch (cnPersistEvent.type) {
-      case 'STRING':
-        persistString(persistKey, cnPersistEvent);
-        break;
-      case 'HASH':
-        persistHash(persistKey, cnPersistEvent);
-        break;
-      case 'HASH_RESET':
-        persistHashReset(persistKey, cnPersistEvent);
-        break;
-      default:
-        break;
+    if (cnPersistEvent.debounceKey === debounceKey) {
+      events[persistKey] = cnPersistEvent;
+      delete persistBuffer[persistKey];
+    }
+  });
+  const persisted = persistEvents(engine, events);
+  releaseEngine(engine);
+  return persisted;
+};
+
+const persistEvents = (engine: CnPersistEngine, events: Record<string, CnPersistEvent>): MaybePromise<void> => {
+  const eventEntries = Object.entries(events);
+  if (eventEntries.length < 1) {
+    return;
+  }
+  const persisted = maybeAll(
+    eventEntries.map(([persistKey, cnPersistEvent]) => persistEventSerially(persistKey, cnPersistEvent)),
+  );
+  return maybeThen(persisted, () => recordFlush(engine));
+};
+
+/**
+ * 立即持久化缓冲区中的事件，不再等待防抖
+ * 返回的 Promise 在这些事件，以及这些持久化 key 已经开始的异步写入都完成后 resolve
+ *
+ * @param persistKeys 只持久化这些持久化 key 的事件，不传时持久化缓冲区中的所有事件
+ */
+export const flushPersistEvents = (engine: CnPersistEngine, persistKeys?: Array<string>): Promise<void> => {
+  const { persistBuffer, persistingEvents } = engine;
+  const events: Record<string, CnPersistEvent> = {};
+  Object.keys(persistBuffer).forEach(persistKey => {
+    if (!persistKeys || persistKeys.includes(persistKey)) {
+      events[persistKey] = persistBuffer[persistKey];
+      delete persistBuffer[persistKey];
+    }
+  });
+  const persisted = persistEvents(engine, events);
+  // persistingEvents 中的 Promise 不会 reject，且已经串联了刚刚开始的写入
+  const persisting: Array<Promise<void>> = [];
+  persistingEvents.forEach((settled, persistKey) => {
+    if (!persistKeys || persistKeys.includes(persistKey)) {
+      persisting.push(settled);
     }
   });
+  releaseEngine(engine);
+  return Promise.all([persisted, ...persisting]).then(() => {});
+};
 
-  persistBuffer = {};
+/**
+ * 立即持久化所有插件实例的所有 store 中还在等待防抖的修改，返回的 Promise 在写入完成后 resolve
+ * 例如在跳转到其它页面之前调用，避免丢失最后的修改
+ */
+export const flushCnPersist = (): Promise<void> => {
+  return Promise.all(Array.from(pendingEngines, engine => flushPersistEvents(engine))).then(() => {});
+};
+
+/**
+ * 删除 state 的全部持久化数据，并丢弃缓冲区中还未持久化的事件，不修改 state 的值
+ * 等待已经开始的异步写入完成后再删除，避免删除后又被写入
+ */
+export const clearPersistedState = (statePersistContext: CnStatePersistContext<unknown>): MaybePromise<void> => {
+  const {
+    persistKey,
+    persistedHashValues,
+    persistedStrings,
+    storePersistContext: { engine, storageAccessor },
+  } = statePersistContext;
+  delete engine.persistBuffer[persistKey];
+  releaseEngine(engine);
+  persistedHashValues.clear();
+  persistedStrings.clear();
+  engine.quotaManager?.forgetHashEntries(persistKey);
+  return maybeThen(engine.persistingEvents.get(persistKey), () => {
+    return maybeThen(removeStateData(storageAccessor, statePersistContext), () => {});
+  });
+};
+
+/**
+ * 删除所有插件实例中持久化 key 以 prefix 开头的持久化数据，并丢弃缓冲区中这些 key 的事件，不修改 state 的值
+ * 例如用户退出登录时清除该用户的所有数据
+ * 已创建的 store 的 state 按照各自的持久化策略删除，其余的数据通过扫描 storage 中以 prefix 开头的 key 删除
+ */
+export const clearCnPersist = ({
+  prefix = 'cn-',
+  storages,
+  debug = false,
+}: CnClearPersistOptions = {}): Promise<void> => {
+  pendingEngines.forEach(engine => {
+    Object.keys(engine.persistBuffer).forEach(persistKey => {
+      if (persistKey.startsWith(prefix)) {
+        delete engine.persistBuffer[persistKey];
+      }
+    });
+    releaseEngine(engine);
+  });
+  const statePersistContexts = getRegisteredStates(prefix);
+  const scannedStorages = getScannedStorages(statePersistContexts, storages);
+  const storageAccessor = produceStorageAccessor(debug);
+  return Promise.all(statePersistContexts.map(clearPersistedState)).then(() => {
+    const removed = scannedStorages.map(storage => {
+      return maybeThen(storageAccessor.getKeys(storage), keys => {
+        return maybeAll(
+          keys.filter(key => key.startsWith(prefix)).map(key => storageAccessor.removeItem(storage, key)),
+        );
+      });
+    });
+    return Promise.all(removed).then(() => {});
+  });
+};
+
+/**
+ * 是否已经监听了页面隐藏事件，多次创建插件时只监听一次
+ */
+let listeningPageHide = false;
+
+/**
+ * 页面被隐藏（例如切换标签页、最小化）或卸载时，立即持久化缓冲区中的所有事件
+ * 移动端浏览器可能在页面隐藏后直接结束进程，而不会触发 unload 事件，因此同时监听 visibilitychange
+ */
+export const listenPageHide = () => {
+  if (listeningPageHide || typeof window === 'undefined' || typeof document === 'undefined') {
+    return;
+  }
+  listeningPageHide = true;
+  document.addEventListener('visibilitychange', () => {
+    if (document.visibilityState === 'hidden') {
+      flushCnPersist();
+    }
+  });
+  window.addEventListener('pagehide', () => flushCnPersist());
+};
+
+/**
+ * 同一个持久化 key 的异步持久化操作串行执行，避免 HASH 的 key 集合被并发的读写覆盖
+ */
+const persistEventSerially = (persistKey: string, cnPersistEvent: CnPersistEvent): MaybePromise<unknown> => {
+  const {
+    storePersistContext: { engine },
+  } = cnPersistEvent;
+  const { persistingEvents } = engine;
+  const persisting = persistingEvents.get(persistKey);
+  const persisted = persisting
+    ? persisting.then(() => observePersistEvent(persistKey, cnPersistEvent))
+    : observePersistEvent(persistKey, cnPersistEvent);
+  if (!isPromise(persisted)) {
+    return;
+  }
+  const settle = () => {
+    if (persistingEvents.get(persistKey) === settled) {
+      persistingEvents.delete(persistKey);
+      releaseEngine(engine);
+    }
+  };
+  const settled: Promise<void> = persisted.then(settle, settle);
+  persistingEvents.set(persistKey, settled);
+  pendingEngines.add(engine);
+  return persisted;
+};
+
+/**
+ * 持久化事件，调用持久化钩子并记录统计，见：{@link CnPersistHooks}、{@link getCnPersistStats}
+ * 通过包装事件的序列化器与 storage 的写入，统计写入的次数、字节数，以及序列化器返回 null 而跳过的写入
+ * 序列化器抛出的异常不再向外抛出，与写入失败一样通过 onPersistError 通知
+ */
+const observePersistEvent = (persistKey: string, cnPersistEvent: CnPersistEvent): MaybePromise<void> => {
+  const { type, stateKey, serialize, storageAccessor, storePersistContext } = cnPersistEvent;
+  const { storeId, debug, engine } = storePersistContext;
+  const hookContext: CnPersistHookContext = { storeId, stateKey, persistKey, type };
+  callHooks(storePersistContext, 'onBeforePersist', hookContext);
+  const start = Date.now();
+  const metrics: CnPersistMetrics = { writes: 0, bytes: 0, skipped: 0, errors: 0 };
+  const errors: Array<[unknown, string]> = [];
+  const onPersistError = (error: unknown, key: string) => {
+    errors.push([error, key]);
+  };
+  const observedEvent: CnPersistEvent = {
+    ...cnPersistEvent,
+    serialize: function (newValue, context) {
+      return maybeThen(serialize.call(this, newValue, context), persistValue => {
+        if (persistValue == null) {
+          metrics.skipped++;
+        }
+        return persistValue;
+      });
+    },
+    storageAccessor: {
+      ...storageAccessor,
+      setItem: (storage, key, value) => {
+        metrics.writes++;
+        metrics.bytes += getByteSize(value);
+        return storageAccessor.setItem(storage, key, value, onPersistError);
+      },
+    },
+  };
+  const report = () => {
+    metrics.errors = errors.length;
+    recordPersistMetrics(engine, storeId, stateKey, metrics);
+    const resultContext: CnPersistResultContext = { ...hookContext, size: metrics.bytes, duration: Date.now() - start };
+    if (errors.length < 1) {
+      callHooks(storePersistContext, 'onPersisted', resultContext);
+    }
+    errors.forEach(([error, key]) => callHooks(storePersistContext, 'onPersistError', error, key, resultContext));
+  };
+  const onException = (e: unknown) => {
+    if (debug) {
+      console.error(`[cn-persist-pinia-plugin] persist '${persistKey}'`, e);
+    }
+    onPersistError(e, persistKey);
+    report();
+  };
+  try {
+    const persisted = persistEvent(persistKey, observedEvent);
+    if (isPromise(persisted)) {
+      return persisted.then(report, onException);
+    }
+    report();
+  } catch (e) {
+    onException(e);
+  }
+};
+
+const persistEvent = (persistKey: string, cnPersistEvent: CnPersistEvent): MaybePromise<unknown> => {
+  switch (cnPersistEvent.type) {
+    case 'STRING':
+      return persistString(persistKey, cnPersistEvent);
+    case 'HASH':
+      return persistHash(persistKey, cnPersistEvent);
+    case 'HASH_RESET':
+      return persistHashReset(persistKey, cnPersistEvent);
+    case 'LIST':
+      return persistList(persistKey, cnPersistEvent);
+    case 'LIST_RESET':
+      return persistListReset(persistKey, cnPersistEvent);
+    default:
+      return;
+  }
 };
 
 /**
@@ -84,75 +379,296 @@ const consumPersistEvent = () => {
  * @param persistKey 持久化 key，即 storage 的 key
  * @param cnPersistEvent 持久化事件，封装了：持久化类型、持久化数据，以及序列化器
  */
-const persistString = (persistKey: string, { storage, newValue, serialize }: CnPersistEvent) => {
-  const persistValue = serialize(newValue);
-  if (persistValue == null) {
-    /**
-     * 给用户一个机会在运行时判断是否持久化，自定义 serialize 返回 null 则不持久化
-     * 例如用户发现需要持久化的值没有变化时可选择不持久化
-     */
-    return;
+const persistString = (
+  persistKey: string,
+  {
+    type,
+    storage,
+    newValue,
+    oldValue,
+    serialize,
+    version,
+    stateKey,
+    persistedStrings,
+    storageAccessor,
+  }: CnPersistEvent,
+) => {
+  const context: CnSerializeContext = { stateKey, type, oldValue, oldPersistedValue: persistedStrings.get(undefined) };
+  return maybeThen(callSerialize(serialize, newValue, context), persistValue => {
+    if (persistValue == null) {
+      /**
+       * 给用户一个机会在运行时判断是否持久化，自定义 serialize 返回 null 则不持久化
+       * 例如用户发现需要持久化的值没有变化时可选择不持久化
+       */
+      return;
+    }
+    persistedStrings.set(undefined, getSerializedString(context)!);
+    return maybeAll([
+      storageAccessor.setItem(storage, persistKey, persistValue),
+      persistVersion(storageAccessor, storage, persistKey, version),
+    ]);
+  });
+};
+
+/**
+ * 配置了版本号时，将版本号与数据一起持久化，以便恢复时判断是否需要迁移
+ */
+const persistVersion = (
+  { setItem }: CnStorageAccessor,
+  storage: AsyncStorageLike,
+  persistKey: string,
+  version?: number,
+) => {
+  if (version != null) {
+    return setItem(storage, getPersistVersionKey(persistKey), String(version));
   }
-  setItem(storage, persistKey, persistValue);
+};
+
+/**
+ * 对 Record 或 Map 的每个 Entry 的 Value 进行序列化，跳过函数与序列化器返回 null 的 Entry
+ * Map 的 key 会转换为字符串
+ * 序列化器可能是异步的（例如开启了加密），因此所有 Entry 序列化完成后再统一写入
+ * 序列化成功的 Entry 的值与序列化器返回的字符串会被记录下来，作为下一次序列化该 Entry 时的旧值
+ */
+const serializeHashEntries = (
+  hashObject: Record<string, unknown> | Map<unknown, unknown>,
+  { type, serialize, stateKey, persistedHashValues, persistedStrings }: CnPersistEvent,
+): MaybePromise<Array<[string, string]>> => {
+  const hashKeys: Array<string> = [];
+  const hashValues: Array<unknown> = [];
+  const contexts: Array<CnSerializeContext> = [];
+  const persistValues: Array<MaybePromise<string | null>> = [];
+  const hashEntries = hashObject instanceof Map ? Array.from(hashObject) : Object.entries(hashObject);
+  hashEntries.forEach(([hashKey, hashValue]) => {
+    if (typeof hashValue !== 'function') {
+      const hashKey_ = String(hashKey);
+      hashKeys.push(hashKey_);
+      hashValues.push(hashValue);
+      const context: CnSerializeContext = {
+        stateKey,
+        type,
+        hashKey: hashKey_,
+        oldValue: persistedHashValues.get(hashKey_),
+        oldPersistedValue: persistedStrings.get(hashKey_),
+      };
+      contexts.push(context);
+      persistValues.push(callSerialize(serialize, hashValue, context));
+    }
+  });
+  return maybeThen(maybeAll(persistValues), persistValues_ => {
+    const entries: Array<[string, string]> = [];
+    persistValues_.forEach((persistValue, index) => {
+      if (persistValue != null) {
+        entries.push([hashKeys[index], persistValue]);
+        persistedHashValues.set(hashKeys[index], hashValues[index]);
+        persistedStrings.set(hashKeys[index], getSerializedString(contexts[index])!);
+      }
+    });
+    return entries;
+  });
 };
 
 /**
  * hash 类型的 Entry 持久化逻辑，即对 Record 类型的 state 的一个 Entry 进行持久化
- * TODO 考虑去掉 hashKeySet 的持久化
- * TODO 在恢复数据时遍历 storage 的 Key 并通过前缀来判断那些 Hash Key 属于同一个 Hash Object
- * TODO 这样可以减小运行时开销，而恢复数据只在刷新页面时才会执行，因此开销增加一点没有关系
+ * storage 可以枚举 key 时，恢复时按照前缀扫描 Entry，因此只写入 Entry，不读写 key 集合，见：{@link AsyncStorageLike.keys}
  *
  * @param persistKey 持久化 key，即 storage 的 key
  * @param cnPersistEvent 持久化事件，封装了：持久化类型、Entry 的 Value，以及序列化器（针对单个 Entry 的 Value）
  */
-const persistHash = (persistKey: string, { storage, newValue, serialize }: CnPersistEvent) => {
+const persistHash = (persistKey: string, cnPersistEvent: CnPersistEvent) => {
+  const {
+    storage,
+    newValue,
+    version,
+    deletedHashKeys,
+    persistedHashValues,
+    persistedStrings,
+    storageAccessor,
+    storePersistContext: {
+      engine: { quotaManager },
+    },
+  } = cnPersistEvent;
+  const { getItem, setItem, removeItem } = storageAccessor;
   const newHashObject: Record<string, unknown> = newValue as Record<string, unknown>;
-  const oldHashKeysString = getItem(storage, persistKey);
-  const hashKeySet = oldHashKeysString ? new Set(JSON.parse(oldHashKeysString)) : new Set();
-  Object.entries(newHashObject).forEach(([hashKey, newHashValue]) => {
-    if (typeof newHashValue !== 'function') {
-      const persistValue = serialize(newHashValue);
-      if (persistValue != null) {
-        setItem(storage, getPersistHashKey(persistKey, hashKey), persistValue);
-        hashKeySet.add(hashKey);
-      }
+  const hashIndexStorage = getHashIndexStorage(storage);
+  return maybeThen(serializeHashEntries(newHashObject, cnPersistEvent), entries => {
+    const entryWrites = entries.map(([hashKey, persistValue]) => {
+      quotaManager?.touchHashEntry(persistKey, hashKey);
+      return setItem(storage, getHashEntryKey(storage, persistKey, hashKey), persistValue);
+    });
+    deletedHashKeys?.forEach(hashKey => {
+      quotaManager?.forgetHashEntry(persistKey, hashKey);
+      persistedHashValues.delete(hashKey);
+      persistedStrings.delete(hashKey);
+      entryWrites.push(removeItem(storage, getHashEntryKey(storage, persistKey, hashKey)));
+    });
+    if (isHashScanned(storage)) {
+      return maybeAll([...entryWrites, persistVersion(storageAccessor, storage, persistKey, version)]);
     }
+    // Entry 写入完成后再读取 key 集合，写入超出容量时淘汰策略可能已经修改了 key 集合
+    return maybeThen(maybeAll(entryWrites), () => {
+      return maybeThen(getItem(hashIndexStorage, persistKey), oldHashKeysString => {
+        const hashKeySet = oldHashKeysString ? new Set(JSON.parse(oldHashKeysString)) : new Set();
+        entries.forEach(([hashKey]) => hashKeySet.add(hashKey));
+        deletedHashKeys?.forEach(hashKey => hashKeySet.delete(hashKey));
+        return maybeAll([
+          setItem(hashIndexStorage, persistKey, JSON.stringify(Array.from(hashKeySet))),
+          persistVersion(storageAccessor, storage, persistKey, version),
+        ]);
+      });
+    });
   });
-  setItem(storage, persistKey, JSON.stringify(Array.from(hashKeySet)));
 };
 
 /**
  * hash 类型的整体持久化逻辑，对 Record 类型的 state 的所有 Entry 逐个进行持久化
  * 主要用于在分布式情况下，例如其它客户端删除了一些 Entry，而这个删除操作难以在本地触发对 Entry 的删除
  * 因此通过重新构建整个 Record 的方式，清理垃圾 Entry
- * TODO 考虑去掉 hashKeySet 的持久化，详见 persistHash
- * TODO 为了在 REHASH 时知道要删除哪些 Key，在 restore 时要同时为 HASH 持久化策略的 state 维护 keys
+ * storage 可以枚举 key 时，通过扫描 storage 得到需要删除的旧 Entry，且不写入 key 集合
  *
  * @param persistKey 持久化 key，即 storage 的 key
  * @param cnPersistEvent 持久化事件，封装了：持久化类型、整个 Record 的值，以及序列化器（针对单个 Entry 的 Value）
  */
-const persistHashReset = (persistKey: string, { storage, newValue, serialize }: CnPersistEvent) => {
+const persistHashReset = (persistKey: string, cnPersistEvent: CnPersistEvent) => {
+  const {
+    storage,
+    newValue,
+    version,
+    persistedHashValues,
+    persistedStrings,
+    storageAccessor,
+    storePersistContext: {
+      engine: { quotaManager },
+    },
+  } = cnPersistEvent;
+  const { setItem, removeItem } = storageAccessor;
   const hashValue: Record<string, unknown> = newValue as Record<string, unknown>;
-  const oldHashKeysString = getItem(storage, persistKey);
-  // 待删除的旧 Entry
-  const oldHashKeySetToDelete: Set<string> = oldHashKeysString ? new Set(JSON.parse(oldHashKeysString)) : new Set();
-  const hashKeySet = new Set();
-  Object.entries(hashValue).forEach(([hashKey, value]) => {
-    if (typeof value !== 'function') {
-      const persistValue = serialize(value);
-      if (persistValue != null) {
-        setItem(storage, getPersistHashKey(persistKey, hashKey), persistValue);
+  return maybeThen(serializeHashEntries(hashValue, cnPersistEvent), entries => {
+    return maybeThen(getHashKeys(storageAccessor, storage, persistKey), oldHashKeys => {
+      // 待删除的旧 Entry
+      const oldHashKeySetToDelete: Set<string> = new Set(oldHashKeys);
+      const hashKeySet = new Set();
+      const writes: Array<MaybePromise<void>> = [];
+      entries.forEach(([hashKey, persistValue]) => {
+        writes.push(setItem(storage, getHashEntryKey(storage, persistKey, hashKey), persistValue));
+        quotaManager?.touchHashEntry(persistKey, hashKey);
         hashKeySet.add(hashKey);
         if (oldHashKeySetToDelete.has(hashKey)) {
           oldHashKeySetToDelete.delete(hashKey);
         }
+      });
+      oldHashKeySetToDelete.forEach(oldHashKeyToDelete => {
+        writes.push(removeItem(storage, getHashEntryKey(storage, persistKey, oldHashKeyToDelete)));
+        quotaManager?.forgetHashEntry(persistKey, oldHashKeyToDelete);
+        persistedHashValues.delete(oldHashKeyToDelete);
+        persistedStrings.delete(oldHashKeyToDelete);
+      });
+      if (!isHashScanned(storage)) {
+        writes.push(setItem(getHashIndexStorage(storage), persistKey, JSON.stringify(Array.from(hashKeySet))));
       }
+      writes.push(persistVersion(storageAccessor, storage, persistKey, version));
+      return maybeAll(writes);
+    });
+  });
+};
+
+/**
+ * 对分段中的每个元素分别进行序列化，序列化为字符串数组的 JSON
+ * 有元素的序列化器返回 null 时，返回 null，即不持久化该分段
+ */
+const serializeListSegment = (
+  items: Array<unknown>,
+  { type, serialize, stateKey }: CnPersistEvent,
+): MaybePromise<string | null> => {
+  return maybeThen(
+    maybeAll(
+      items.map(item => {
+        const context: CnSerializeContext = { stateKey, type, oldValue: undefined };
+        return callSerialize(serialize, item, context);
+      }),
+    ),
+    persistValues => {
+      return persistValues.some(persistValue => persistValue == null) ? null : JSON.stringify(persistValues);
+    },
+  );
+};
+
+/**
+ * 持久化 list 的第 segmentIndex 个分段，超出 list 长度的分段不持久化
+ */
+const persistListSegment = (
+  persistKey: string,
+  list: Array<unknown>,
+  segmentIndex: number,
+  cnPersistEvent: CnPersistEvent,
+): MaybePromise<void> => {
+  const { storage, segmentSize = DEFAULT_SEGMENT_SIZE, storageAccessor } = cnPersistEvent;
+  const start = segmentIndex * segmentSize;
+  if (start >= list.length) {
+    return;
+  }
+  return maybeThen(serializeListSegment(list.slice(start, start + segmentSize), cnPersistEvent), persistValue => {
+    if (persistValue != null) {
+      return storageAccessor.setItem(storage, getPersistSegmentKey(persistKey, segmentIndex), persistValue);
     }
   });
-  oldHashKeySetToDelete.forEach(oldHashKeyToDelete => {
-    storage.removeItem(getPersistHashKey(persistKey, oldHashKeyToDelete));
+};
+
+const persistListMeta = (
+  persistKey: string,
+  list: Array<unknown>,
+  { storage, version, segmentSize = DEFAULT_SEGMENT_SIZE, storageAccessor }: CnPersistEvent,
+) => {
+  const listMeta: CnListMeta = { length: list.length, segmentSize };
+  return maybeAll([
+    storageAccessor.setItem(storage, persistKey, JSON.stringify(listMeta)),
+    persistVersion(storageAccessor, storage, persistKey, version),
+  ]);
+};
+
+/**
+ * list 类型的分段持久化逻辑，只重写发生变化的元素所在的分段
+ * 分段全部写入后再写入分段信息，这样其它标签页收到分段信息的变化时，所有分段都已经写入
+ *
+ * @param persistKey 持久化 key，即 storage 的 key
+ * @param cnPersistEvent 持久化事件，封装了：持久化类型、整个 list，发生变化的分段，以及序列化器（针对单个元素）
+ */
+const persistList = (persistKey: string, cnPersistEvent: CnPersistEvent) => {
+  const list = cnPersistEvent.newValue as Array<unknown>;
+  const segmentWrites = Array.from(cnPersistEvent.dirtySegments ?? []).map(segmentIndex =>
+    persistListSegment(persistKey, list, segmentIndex, cnPersistEvent),
+  );
+  return maybeThen(maybeAll(segmentWrites), () => persistListMeta(persistKey, list, cnPersistEvent));
+};
+
+/**
+ * list 类型的整体持久化逻辑，重写所有分段，并删除超出新长度的旧分段
+ *
+ * @param persistKey 持久化 key，即 storage 的 key
+ * @param cnPersistEvent 持久化事件，封装了：持久化类型、整个 list，以及序列化器（针对单个元素）
+ */
+const persistListReset = (persistKey: string, cnPersistEvent: CnPersistEvent) => {
+  const {
+    storage,
+    segmentSize = DEFAULT_SEGMENT_SIZE,
+    storageAccessor: { getItem, removeItem },
+  } = cnPersistEvent;
+  const list = cnPersistEvent.newValue as Array<unknown>;
+  return maybeThen(getItem(storage, persistKey), oldListMetaString => {
+    const segmentCount = Math.ceil(list.length / segmentSize);
+    const segmentWrites: Array<MaybePromise<void>> = [];
+    for (let segmentIndex = 0; segmentIndex < segmentCount; segmentIndex++) {
+      segmentWrites.push(persistListSegment(persistKey, list, segmentIndex, cnPersistEvent));
+    }
+    if (oldListMetaString) {
+      const oldListMeta: CnListMeta = JSON.parse(oldListMetaString);
+      const oldSegmentCount = Math.ceil(oldListMeta.length / oldListMeta.segmentSize);
+      for (let segmentIndex = segmentCount; segmentIndex < oldSegmentCount; segmentIndex++) {
+        segmentWrites.push(removeItem(storage, getPersistSegmentKey(persistKey, segmentIndex)));
+      }
+    }
+    return maybeThen(maybeAll(segmentWrites), () => persistListMeta(persistKey, list, cnPersistEvent));
   });
-  setItem(storage, persistKey, JSON.stringify(Array.from(hashKeySet)));
 };
 
 /**
@@ -163,61 +679,306 @@ const persistHashReset = (persistKey: string, { storage, newValue, serialize }:
  */
 export const emitPersistEvent = (
   type: CnPersistEventType,
-  storage: StorageLike,
-  persistKey: string,
+  statePersistContext: CnStatePersistContext<unknown>,
   newValue: unknown,
-  serialize: CnStateSerializer,
+  changes?: Pick<CnPersistEvent, 'deletedHashKeys' | 'dirtySegments' | 'oldValue'>,
 ) => {
-  persistBuffer[persistKey] = { type, storage, newValue, serialize };
-  debouncedConsumPersistEvent();
+  const {
+    storage,
+    stateKey,
+    persistKey,
+    persistedHashValues,
+    persistedStrings,
+    statePersistOptions: { serialize, version, segmentSize },
+    storePersistContext,
+  } = statePersistContext;
+  const { engine, storageAccessor } = storePersistContext;
+  const { persistBuffer } = engine;
+  const pendingEvent = persistBuffer[persistKey];
+  const cnPersistEvent: CnPersistEvent = {
+    type,
+    storage,
+    newValue,
+    serialize: serialize!,
+    version,
+    segmentSize,
+    stateKey,
+    persistedHashValues,
+    persistedStrings,
+    ...changes,
+    // 防抖期间多次变化时，保留第一次变化时的旧值，即上一次持久化的值
+    ...(pendingEvent && { oldValue: pendingEvent.oldValue }),
+    debounceKey: getDebounceKey(statePersistContext),
+    storePersistContext,
+    storageAccessor,
+  };
+  persistBuffer[persistKey] = cnPersistEvent;
+  pendingEngines.add(engine);
+  debouncedConsumPersistEvent(cnPersistEvent);
+};
+
+/**
+ * 返回缓冲区中同一个 state 的事件，没有时返回 undefined
+ */
+const getPendingPersistEvent = ({
+  persistKey,
+  storePersistContext: { engine },
+}: CnStatePersistContext<unknown>): CnPersistEvent | undefined => {
+  return engine.persistBuffer[persistKey];
+};
+
+export const hasPendingPersistEvent = (statePersistContext: CnStatePersistContext<unknown>) => {
+  return !!getPendingPersistEvent(statePersistContext);
 };
 
+/**
+ * 将 Entry 的修改合并到缓冲区中同一个 state 的事件中
+ * HASH_RESET 事件的值就是 state 本身，已经包含了该修改，不需要合并
+ */
 export const emitPersistEventForHash = (hashKey: string, oldEvent: CnPersistEvent, newValue?: unknown) => {
-  (oldEvent.newValue as Record<string, unknown>)[hashKey] = newValue;
-  debouncedConsumPersistEvent();
+  if (oldEvent.type == 'HASH') {
+    (oldEvent.newValue as Record<string, unknown>)[hashKey] = newValue;
+    // 删除后又重新设置的 Entry，不再删除
+    oldEvent.deletedHashKeys?.delete(hashKey);
+  }
+  debouncedConsumPersistEvent(oldEvent);
+};
+
+/**
+ * 将 Entry 的删除合并到缓冲区中同一个 state 的事件中
+ * HASH_RESET 事件的值就是 state 本身，Entry 已经被 Action 删除，持久化时会根据旧的 key 集合删除该 Entry
+ */
+const emitDeleteEventForHash = (hashKey: string, oldEvent: CnPersistEvent) => {
+  if (oldEvent.type == 'HASH') {
+    delete (oldEvent.newValue as Record<string, unknown>)[hashKey];
+    (oldEvent.deletedHashKeys ??= new Set()).add(hashKey);
+  }
+  debouncedConsumPersistEvent(oldEvent);
 };
 
 export const produceHashLevelPersist = (
-  storage: StorageLike,
-  persistKey: string,
-  serialize: CnStateSerializer,
+  statePersistContext: CnStatePersistContext<unknown>,
+): ((args: Array<unknown>) => void) => {
+  return args => {
+    const oldEvent = getPendingPersistEvent(statePersistContext);
+    if (oldEvent) {
+      emitPersistEventForHash(args[0] as string, oldEvent, args[1]);
+    } else {
+      emitPersistEvent('HASH', statePersistContext, { [args[0] as string]: args[1] });
+    }
+  };
+};
+
+/**
+ * HASH 策略删除 Entry 的 Action 的持久化器，args[0] 为要删除的 Entry 的 key
+ */
+export const produceHashLevelDelete = (
+  statePersistContext: CnStatePersistContext<unknown>,
 ): ((args: Array<unknown>) => void) => {
   return args => {
-    const oldEvent = persistBuffer[persistKey];
+    const hashKey = args[0] as string;
+    const oldEvent = getPendingPersistEvent(statePersistContext);
     if (oldEvent) {
-      emitPersistEventForHash(args[1] as string, oldEvent, args[0]);
+      emitDeleteEventForHash(hashKey, oldEvent);
     } else {
-      emitPersistEvent('HASH', storage, persistKey, { [args[1] as string]: args[0] }, serialize);
+      emitPersistEvent('HASH', statePersistContext, {}, { deletedHashKeys: new Set([hashKey]) });
     }
   };
 };
 
+/**
+ * 已经被拦截的 Map，避免重复拦截
+ */
+const interceptedMaps: WeakSet<Map<unknown, unknown>> = new WeakSet();
+
+/**
+ * 拦截 Map 类型的 state 的 set、delete 与 clear，实现 Entry 粒度的持久化，不需要 hsetAndPersist 这类 Action
+ * Vue 的响应式 Map 最终会调用原始 Map 实例上的方法，因此在原始 Map 实例上覆盖这些方法即可
+ * clear 会触发对整个 Map 的持久化
+ */
+export const produceMapInterceptor = (statePersistContext: CnStatePersistContext<unknown>) => {
+  const hashLevelPersist = produceHashLevelPersist(statePersistContext);
+  const hashLevelDelete = produceHashLevelDelete(statePersistContext);
+  return (stateValue: unknown) => {
+    const map = toRaw(stateValue);
+    if (!(map instanceof Map) || interceptedMaps.has(map)) {
+      return;
+    }
+    interceptedMaps.add(map);
+    map.set = function (key, value) {
+      Map.prototype.set.call(this, key, value);
+      if (!isRestoringMap(statePersistContext)) {
+        hashLevelPersist([String(key), value]);
+      }
+      return this;
+    };
+    map.delete = function (key) {
+      const deleted = Map.prototype.delete.call(this, key);
+      if (deleted && !isRestoringMap(statePersistContext)) {
+        hashLevelDelete([String(key)]);
+      }
+      return deleted;
+    };
+    map.clear = function () {
+      Map.prototype.clear.call(this);
+      if (!isRestoringMap(statePersistContext)) {
+        emitPersistEvent('HASH_RESET', statePersistContext, this);
+      }
+    };
+  };
+};
+
+/**
+ * 将发生变化的分段合并到缓冲区中同一个 state 的事件中
+ * LIST_RESET 事件会重写所有分段，因此不需要合并
+ */
+const emitPersistEventForList = (
+  statePersistContext: CnStatePersistContext<unknown>,
+  list: Array<unknown>,
+  dirtySegments: Set<number>,
+) => {
+  const oldEvent = getPendingPersistEvent(statePersistContext);
+  if (!oldEvent) {
+    emitPersistEvent('LIST', statePersistContext, list, { dirtySegments });
+    return;
+  }
+  if (oldEvent.type == 'LIST') {
+    oldEvent.newValue = list;
+    dirtySegments.forEach(segmentIndex => oldEvent.dirtySegments!.add(segmentIndex));
+  }
+  debouncedConsumPersistEvent(oldEvent);
+};
+
+const getListValue = ({ stateKey, storePersistContext: { storeState } }: CnStatePersistContext<unknown>) => {
+  return reactive(storeState)[stateKey] as Array<unknown>;
+};
+
+/**
+ * LIST 策略追加元素的 Action 的持久化器，记录 Action 执行前的长度，只持久化该长度之后的元素所在的分段
+ */
+export const produceListLevelPush = (statePersistContext: CnStatePersistContext<unknown>): CnListenerPrePersist => {
+  const {
+    statePersistOptions: { segmentSize = DEFAULT_SEGMENT_SIZE },
+  } = statePersistContext;
+  return () => {
+    const oldLength = getListValue(statePersistContext).length;
+    return () => {
+      const list = getListValue(statePersistContext);
+      const dirtySegments: Set<number> = new Set();
+      for (let index = Math.min(oldLength, list.length); index < list.length; index++) {
+        dirtySegments.add(Math.floor(index / segmentSize));
+      }
+      emitPersistEventForList(statePersistContext, list, dirtySegments);
+    };
+  };
+};
+
+/**
+ * LIST 策略修改元素的 Action 的持久化器，args[0] 为被修改的元素的下标，只持久化该元素所在的分段
+ */
+export const produceListLevelSet = (statePersistContext: CnStatePersistContext<unknown>): CnListenerPrePersist => {
+  const {
+    statePersistOptions: { segmentSize = DEFAULT_SEGMENT_SIZE },
+  } = statePersistContext;
+  return afterAction(args => {
+    const segmentIndex = Math.floor((args[0] as number) / segmentSize);
+    emitPersistEventForList(statePersistContext, getListValue(statePersistContext), new Set([segmentIndex]));
+  });
+};
+
 export const produceStateLevelPersist = (
   type: CnPersistEventType,
-  storage: StorageLike,
-  persistKey: string,
-  serialize: CnStateSerializer,
+  statePersistContext: CnStatePersistContext<unknown>,
+): StateLevelPersist => {
+  return (stateValue, oldValue) => {
+    // 从 storage 恢复数据导致的变化不需要再次持久化
+    if (isRestoredValue(statePersistContext, stateValue)) {
+      return;
+    }
+    emitPersistEvent(type, statePersistContext, stateValue, { oldValue });
+  };
+};
+
+/**
+ * 开启 autoHash 时 HASH 策略的 state 级别的持久化器，由 deep watch 触发
+ * 与上一次的 Entry 进行浅对比，只持久化新增、被替换与被删除的 Entry
+ * 浅对比找不到变化时，说明修改的是某个 Entry 的 Value 的内部字段，此时持久化整个 Record
+ *
+ * @param initValue state 的初始值，作为第一次对比的基准
+ */
+export const produceHashDiffPersist = (
+  statePersistContext: CnStatePersistContext<unknown>,
+  initValue: unknown,
 ): StateLevelPersist => {
+  const hashLevelPersist = produceHashLevelPersist(statePersistContext);
+  const hashLevelDelete = produceHashLevelDelete(statePersistContext);
+  const takeSnapshot = (hashValue: unknown): Map<string, unknown> => {
+    return new Map(Object.entries(toRaw((hashValue ?? {}) as Record<string, unknown>)));
+  };
+  let snapshot = takeSnapshot(initValue);
   return stateValue => {
-    emitPersistEvent(type, storage, persistKey, stateValue, serialize);
+    const oldSnapshot = snapshot;
+    snapshot = takeSnapshot(stateValue);
+    // 从 storage 恢复数据导致的变化不需要再次持久化，但要更新对比的基准
+    if (isRestoredValue(statePersistContext, stateValue)) {
+      return;
+    }
+    // 恢复单个 Entry 时只跳过恢复的 Entry，同一个 tick 中对其它 Entry 的修改仍然持久化
+    const restoredValues = getRestoredValues(statePersistContext);
+    const isRestoredEntry = (hashKey: string, value: unknown) => {
+      return !!restoredValues?.has(hashKey) && restoredValues.get(hashKey) === value;
+    };
+    let changed = false;
+    let restored = false;
+    snapshot.forEach((value, hashKey) => {
+      if (oldSnapshot.has(hashKey) && oldSnapshot.get(hashKey) === value) {
+        return;
+      }
+      if (isRestoredEntry(hashKey, value)) {
+        restored = true;
+        return;
+      }
+      hashLevelPersist([hashKey, value]);
+      changed = true;
+    });
+    oldSnapshot.forEach((_, hashKey) => {
+      if (snapshot.has(hashKey)) {
+        return;
+      }
+      if (isRestoredEntry(hashKey, undefined)) {
+        restored = true;
+        return;
+      }
+      hashLevelDelete([hashKey]);
+      changed = true;
+    });
+    if (!changed && !restored) {
+      emitPersistEvent('HASH_RESET', statePersistContext, stateValue);
+    }
   };
 };
 
+/**
+ * 不需要记录 Action 执行前的 state 的持久化器，只在 Action 成功后执行
+ */
+export const afterAction = (persist: CnListenerPersist): CnListenerPrePersist => {
+  return () => persist;
+};
+
 export const produceActionListener = (
-  actionNamePersisterRegistry: Map<string, CnListenerPersist>,
+  actionNamePersisterRegistry: Map<string, CnListenerPrePersist>,
 ): StoreOnActionListener<string, StateTree, unknown, unknown> => {
   if (actionNamePersisterRegistry.size < 1) {
     return () => {};
   }
   return listenerContext => {
-    listenerContext.after(() => {
-      // Action 成功后执行持久化
-      const actionPersister = actionNamePersisterRegistry.get(listenerContext.name);
-      if (actionPersister) {
-        const { args } = listenerContext;
-        actionPersister([args[1], args[0]]);
-      }
-    });
+    const actionPrePersist = actionNamePersisterRegistry.get(listenerContext.name);
+    if (!actionPrePersist) {
+      return;
+    }
+    const actionPersist = actionPrePersist(listenerContext.args);
+    // Action 成功后执行持久化
+    listenerContext.after(() => actionPersist(listenerContext.args));
   };
 };
 
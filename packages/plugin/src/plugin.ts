@@ -1,41 +1,97 @@
-import { isRef, toRaw, watch } from 'vue';
+import { isRef, onScopeDispose, toRaw, watch } from 'vue';
 import { PiniaPluginContext } from 'pinia';
 import {
+  CnPersistEventType,
   CnPersistFactoryOptions,
+  CnPersistPolicy,
   CnStatePersistContext,
   CnStatePersistOptions,
-  CnListenerPersist,
+  CnListenerPrePersist,
   StateKeyType,
   StateLevelPersist,
 } from './types';
 import {
+  afterAction,
+  clearPersistedState,
   emitPersistEvent,
+  flushPersistEvents,
+  listenPageHide,
   produceActionListener,
+  produceCnPersistEngine,
+  produceHashDiffPersist,
+  produceHashLevelDelete,
   produceHashLevelPersist,
+  produceListLevelPush,
+  produceListLevelSet,
+  produceMapInterceptor,
   produceStateLevelPersist,
   produceStorePersist,
-  setGlobalDebounce,
-  setSetItem,
 } from './persist';
-import { getPersistKey, mixOptions, produceStatePersistContext, produceStorePersistContext } from './util';
-import { getItem, produceStoreHydrate, restoreState, setGetItem } from './restore';
+import {
+  getPersistKey,
+  maybeAll,
+  maybeThen,
+  mixOptions,
+  onAppUnmount,
+  produceStatePersistContext,
+  produceStorePersistContext,
+} from './util';
+import { getStateStorageValue, produceStoreHydrate, restoreFromStoreValue, setStateValue } from './restore';
+import { registerPiniaEngine, registerStatePersistContext, unregisterStatePersistContext } from './storage';
+import { listenCrossTab, openBroadcastChannel, produceBroadcastStorage } from './sync';
+import { produceQuotaManager } from './quota';
+import { inspectInDevtools } from './devtools';
+
+/**
+ * 各持久化策略对 state 整体进行持久化的事件类型
+ */
+const RESET_EVENT_TYPES: Record<CnPersistPolicy, CnPersistEventType> = {
+  STRING: 'STRING',
+  HASH: 'HASH_RESET',
+  LIST: 'LIST_RESET',
+};
 
 export const createCnPersistPiniaPlugin = (factoryOptions: CnPersistFactoryOptions = {}) => {
-  const { auto = false, globalDebounce = 500 } = factoryOptions;
+  const {
+    auto = false,
+    globalDebounce = 500,
+    globalMaxWait,
+    quota,
+    autoFlush = true,
+    // 与 pinia 相同，生产环境缺省不注册 Devtools，打包工具会替换 process.env.NODE_ENV
+    devtools = process.env.NODE_ENV !== 'production',
+  } = factoryOptions;
 
-  // 设置全局防抖延迟
-  setGlobalDebounce(globalDebounce);
+  /**
+   * 当前插件实例的运行时状态，包括防抖配置、持久化事件缓冲区，以及超出容量时的淘汰策略
+   * 只由当前插件实例的 store 共用，多个 Pinia 实例各自创建插件时互不影响
+   */
+  const engine = produceCnPersistEngine(
+    globalDebounce,
+    globalMaxWait,
+    quota ? produceQuotaManager(quota, !!factoryOptions.debug) : undefined,
+  );
+
+  // 页面隐藏或卸载时立即持久化，避免丢失防抖期间的修改
+  if (autoFlush) {
+    listenPageHide();
+  }
 
   return (context: PiniaPluginContext) => {
     /**
      * 这里会为每个 store 执行一次
      */
     const {
-      options: { cnPersist = auto, actions },
+      options: { cnPersist = auto, actions, state: stateFactory },
       store,
       pinia,
+      app,
     } = context;
 
+    // 没有启用持久化的 store 也提供 $hydrated，使其类型在所有 store 上都成立
+    store.$hydrated = Promise.resolve();
+    registerPiniaEngine(pinia, engine);
+
     if (!cnPersist) {
       return;
     }
@@ -58,16 +114,20 @@ export const createCnPersistPiniaPlugin = (factoryOptions: CnPersistFactoryOptio
 
     // 创建 store 上下文
     const mixedPersistOptions = mixOptions(cnPersist, factoryOptions);
-    const storePersistContext = produceStorePersistContext(factoryOptions, storeId, storeState, mixedPersistOptions);
+    const storePersistContext = produceStorePersistContext(
+      factoryOptions,
+      storeId,
+      storeState,
+      mixedPersistOptions,
+      engine,
+    );
 
     // produceStorePersistContext 中抛异常时会返回 null，此时会忽略当前 store，继续配置别的 store
     if (!storePersistContext) {
       return;
     }
 
-    const { key, states, debug, beforeRestore, afterRestore } = storePersistContext;
-    setSetItem(debug);
-    setGetItem(debug);
+    const { key, states, debug, crossTab, beforeRestore, afterRestore } = storePersistContext;
 
     /**
      * 为了方便用户配置 states 时能利用 typescript 自动根据 state 补全 state key，
@@ -86,11 +146,35 @@ export const createCnPersistPiniaPlugin = (factoryOptions: CnPersistFactoryOptio
       return;
     }
 
+    const getStateInitValue = (stateKey: string) => {
+      const stateValue = storeState[stateKey];
+      return isRef(stateValue) ? stateValue.value : stateValue;
+    };
+
+    /**
+     * setup 风格的 store 没有 state 函数，在恢复之前复制 state 的初始值，见：storePersistContext.resetState
+     * 无法复制的初始值（例如包含函数）不保存，这些 state 不能被恢复为初始值
+     */
+    const initValueCopies: Map<string, unknown> = new Map();
+    if (!stateFactory) {
+      persistStateKeys.forEach(stateKey => {
+        try {
+          initValueCopies.set(stateKey, structuredClone(toRaw(getStateInitValue(stateKey))));
+        } catch (e) {
+          if (debug) {
+            console.error(`[cn-persist-pinia-plugin] failed to copy the initial value of state [${stateKey}]`, e);
+          }
+        }
+      });
+    }
+
     const stateLevelPersistRegistry: Map<StateKeyType, StateLevelPersist> = new Map();
     const statePersistContextMap: Map<StateKeyType, CnStatePersistContext<unknown>> = new Map();
-    const actionNamePersisterRegistry: Map<string, CnListenerPersist> = new Map();
-    // 初始化时要恢复的 state
-    const initRestoreStates: Array<CnStatePersistContext<unknown>> = [];
+    const actionNamePersisterRegistry: Map<string, CnListenerPrePersist> = new Map();
+    // 初始化时要检查是否存在持久化数据的 state
+    const initStates: Array<CnStatePersistContext<unknown>> = [];
+    // 跨标签页同步使用 BroadcastChannel 时，所有 state 的 storage 都包装为写入后广播的 storage
+    const broadcastChannel = crossTab == 'broadcast' ? openBroadcastChannel(debug) : null;
 
     persistStateKeys.forEach(stateKey => {
       const statePersistOptions: CnStatePersistOptions<unknown> = states[stateKey]!;
@@ -108,28 +192,73 @@ export const createCnPersistPiniaPlugin = (factoryOptions: CnPersistFactoryOptio
       if (!statePersistContext) {
         return;
       }
+      if (broadcastChannel) {
+        statePersistContext.storage = produceBroadcastStorage(statePersistContext.storage, broadcastChannel);
+      }
 
       const {
-        storage,
         hashActionName,
-        statePersistOptions: { policy, serialize },
+        hdelActionName,
+        lpushActionName,
+        lsetActionName,
+        statePersistOptions: { policy, autoHash },
       } = statePersistContext;
 
       let stateLevelPersist: StateLevelPersist;
-      if (policy == 'HASH') {
+      if (policy == 'HASH' && toRaw(getStateInitValue(stateKey)) instanceof Map) {
+        // 对于 Map 类型的 state，拦截 Map 的方法实现 Entry 粒度的持久化，state 被替换后重新拦截
+        watch(() => store.$state[stateKey], produceMapInterceptor(statePersistContext), {
+          immediate: true,
+          flush: 'sync',
+        });
+        stateLevelPersist = produceStateLevelPersist('HASH_RESET', statePersistContext);
+        watch(() => {
+          return store.$state[stateKey];
+        }, stateLevelPersist);
+      } else if (policy == 'HASH' && autoHash) {
+        // 自动对比 Record 的 Entry，不需要 hashActionName 对应的 Action
+        stateLevelPersist = produceHashDiffPersist(statePersistContext, getStateInitValue(stateKey));
+        watch(
+          () => {
+            return store.$state[stateKey];
+          },
+          stateLevelPersist,
+          { deep: true },
+        );
+      } else if (policy == 'HASH') {
         if (!actions[hashActionName]) {
           throw new Error(
             `state [${stateKey}] is set to HASH persist policy, it must have an Action with name '${hashActionName}'`,
           );
         }
         // 对于 HASH 策略的 state，基于 Action 实现 hashKey 粒度的持久化
-        actionNamePersisterRegistry.set(hashActionName, produceHashLevelPersist(storage, persistKey, serialize!));
-        stateLevelPersist = produceStateLevelPersist('HASH_RESET', storage, persistKey, serialize!);
+        actionNamePersisterRegistry.set(hashActionName, afterAction(produceHashLevelPersist(statePersistContext)));
+        // 删除 Entry 的 Action 是可选的
+        if (actions[hdelActionName]) {
+          actionNamePersisterRegistry.set(hdelActionName, afterAction(produceHashLevelDelete(statePersistContext)));
+        }
+        stateLevelPersist = produceStateLevelPersist('HASH_RESET', statePersistContext);
+        watch(() => {
+          return store.$state[stateKey];
+        }, stateLevelPersist);
+      } else if (policy == 'LIST') {
+        if (!actions[lpushActionName]) {
+          throw new Error(
+            `state [${stateKey}] is set to LIST persist policy, it must have an Action with name '${lpushActionName}'`,
+          );
+        }
+        // 对于 LIST 策略的 state，基于 Action 实现分段粒度的持久化
+        actionNamePersisterRegistry.set(lpushActionName, produceListLevelPush(statePersistContext));
+        // 修改元素的 Action 是可选的
+        if (actions[lsetActionName]) {
+          actionNamePersisterRegistry.set(lsetActionName, produceListLevelSet(statePersistContext));
+        }
+        stateLevelPersist = produceStateLevelPersist('LIST_RESET', statePersistContext);
         watch(() => {
           return store.$state[stateKey];
         }, stateLevelPersist);
       } else {
-        stateLevelPersist = produceStateLevelPersist('STRING', storage, persistKey, serialize!);
+        stateLevelPersist = produceStateLevelPersist('STRING', statePersistContext);
         watch(
           () => {
             return store.$state[stateKey];
@@ -138,31 +267,33 @@ export const createCnPersistPiniaPlugin = (factoryOptions: CnPersistFactoryOptio
           { deep: true },
         );
       }
+      registerStatePersistContext(statePersistContext);
+      const { quotaManager } = engine;
+      quotaManager?.registerState(statePersistContext);
+      const unregister = () => {
+        unregisterStatePersistContext(statePersistContext);
+        quotaManager?.unregisterState(statePersistContext);
+      };
+      onScopeDispose(unregister);
+      // 应用卸载后 store 不一定会被销毁，同样注销，避免插件实例一直持有不再使用的 state
+      onAppUnmount(app, unregister);
       stateLevelPersistRegistry.set(stateKey, stateLevelPersist);
       statePersistContextMap.set(stateKey, statePersistContext);
-
-      /**
-       * 为当前 store 的每个 state 执行初始化操作
-       * 有持久化数据则用持久化数据设置 state 的值，这种情况持久化值会覆盖 state 的初始值
-       * 如果没有持久化数据，而 state 有初始值，则为 state 的初始值进行持久化
-       */
-      const storageValue = getItem(storage, persistKey);
-      if (!storageValue) {
-        // 如果持久化数据不存在，则检查 state 是否有初始值，如果有则对初始值进行持久化
-        const stateValue = storeState[stateKey];
-        const initValue = isRef(stateValue) ? stateValue.value : stateValue;
-        if (initValue) {
-          emitPersistEvent(policy == 'STRING' ? 'STRING' : 'HASH_RESET', storage, persistKey, initValue, serialize!);
-        }
-      } else {
-        initRestoreStates.push(statePersistContext);
-      }
+      initStates.push(statePersistContext);
     });
 
     if (actionNamePersisterRegistry.size > 0) {
       store.$onAction(produceActionListener(actionNamePersisterRegistry));
     }
 
+    if (crossTab) {
+      listenCrossTab(crossTab, statePersistContextMap, broadcastChannel);
+    }
+
+    if (devtools && app && typeof window !== 'undefined') {
+      inspectInDevtools(app, storePersistContext, statePersistContextMap);
+    }
+
     /**
      * 对 store 整体持久化
      * 无论哪种策略或实现方式，stateKeyPersisterRegistry 中都会注册 state 级别的持久化器
@@ -172,21 +303,92 @@ export const createCnPersistPiniaPlugin = (factoryOptions: CnPersistFactoryOptio
     store.$persist = produceStorePersist(stateLevelPersistRegistry, store.$state);
 
     /**
-     * 恢复初始化时 storage 中已经存在的持久化数据
-     * 这种情况下以持久化数据为准，即如果 state 有初始值，则初始值会被持久化数据覆盖
+     * 立即持久化当前 store 还在等待防抖的修改
+     * store 销毁时 watch 与 Action 监听都会停止，缓冲区中的事件不会再有新的修改，直接持久化即可
      */
-    if (initRestoreStates.length > 0) {
+    const persistKeys = Array.from(statePersistContextMap.values()).map(({ persistKey }) => persistKey);
+    store.$flush = () => flushPersistEvents(engine, persistKeys);
+    onScopeDispose(() => flushPersistEvents(engine, persistKeys));
+
+    /**
+     * 删除当前 store 的持久化数据，不修改 state 的值
+     * 没有启用持久化的 state 不会被删除
+     */
+    store.$clearPersisted = stateKeys => {
+      const statePersistContexts = Array.from(statePersistContextMap.values()).filter(({ stateKey }) => {
+        return !stateKeys || stateKeys.includes(stateKey);
+      });
+      return Promise.all(statePersistContexts.map(clearPersistedState)).then(() => {});
+    };
+
+    /**
+     * 为当前 store 的每个 state 执行初始化操作
+     * 有持久化数据则用持久化数据设置 state 的值，这种情况持久化值会覆盖 state 的初始值
+     * 如果没有持久化数据，而 state 有初始值，则为 state 的初始值进行持久化
+     *
+     * 同步 storage 时以下操作同步完成，异步 storage 时 $hydrated 在恢复完成后 resolve
+     */
+    const initStorageValues = maybeAll(initStates.map(getStateStorageValue));
+    const initialized = maybeThen(initStorageValues, storageValues => {
+      const initRestoreStates: Array<[string, CnStatePersistContext<unknown>]> = [];
+      storageValues.forEach((storageValue, index) => {
+        const statePersistContext = initStates[index];
+        if (storageValue) {
+          initRestoreStates.push([storageValue, statePersistContext]);
+          return;
+        }
+        // 如果持久化数据不存在，则检查 state 是否有初始值，如果有则对初始值进行持久化
+        const {
+          stateKey,
+          statePersistOptions: { policy },
+        } = statePersistContext;
+        // 0、false 与 '' 也是有效的初始值，null 与 undefined 视为没有初始值，见：DEFAULT_STATE_SERIALIZER
+        const initValue = getStateInitValue(stateKey);
+        if (initValue != null) {
+          emitPersistEvent(RESET_EVENT_TYPES[policy!], statePersistContext, initValue);
+        }
+      });
+
+      /**
+       * 恢复初始化时 storage 中已经存在的持久化数据
+       * 这种情况下以持久化数据为准，即如果 state 有初始值，则初始值会被持久化数据覆盖
+       */
+      if (initRestoreStates.length < 1) {
+        return;
+      }
       beforeRestore?.(context);
-      initRestoreStates.forEach(statePersistContext => {
-        restoreState(statePersistContext);
+      const restored = maybeAll(
+        initRestoreStates.map(([storageValue, statePersistContext]) =>
+          restoreFromStoreValue(storageValue, statePersistContext),
+        ),
+      );
+      return maybeThen(restored, () => {
+        afterRestore?.(context);
       });
-      afterRestore?.(context);
-    }
+    });
+    store.$hydrated = Promise.resolve(initialized);
+    storePersistContext.hydrated = store.$hydrated;
 
     /**
      * 对 store 整体恢复
      */
     store.$hydrate = produceStoreHydrate(statePersistContextMap, context, beforeRestore, afterRestore);
+    storePersistContext.hydrate = store.$hydrate;
+
+    /**
+     * option 风格的 store 重新调用 state 函数，与 $reset 相同，setup 风格的 store 使用初始值的副本
+     */
+    storePersistContext.resetState = stateKey => {
+      const statePersistContext = statePersistContextMap.get(stateKey);
+      if (!statePersistContext) {
+        return;
+      }
+      if (stateFactory) {
+        setStateValue(statePersistContext, stateFactory()[stateKey]);
+      } else if (initValueCopies.has(stateKey)) {
+        setStateValue(statePersistContext, structuredClone(initValueCopies.get(stateKey)));
+      }
+    };
 
     return {};
   };
@@ -0,0 +1,263 @@
+import { AsyncStorageLike, CnPersistResultContext, CnStatePersistContext, MaybePromise } from './types';
+import { getHashIndexStorage, getPersistVersionKey, maybeThen } from './util';
+import { getHashEntryKey, isHashScanned, produceStorageAccessor, removeStateData } from './storage';
+
+/**
+ * 自定义淘汰策略，在写入超出 storage 容量时调用
+ * 返回 true 表示已经释放了空间，插件会重试写入，返回 false 表示无法释放空间，写入失败
+ *
+ * @param key 写入失败的 storage key
+ * @param value 写入失败的值
+ * @param storage 写入失败的 storage
+ */
+export type CnEvictHandler = (key: string, value: string, storage: AsyncStorageLike) => MaybePromise<boolean>;
+
+/**
+ * 淘汰策略
+ * 'lru'：按照最近写入或恢复的时间，从最久未使用的 HASH Entry 开始删除，直到释放的空间足够写入新值
+ * 'priority'：每次删除一个优先级最低的 state 的全部持久化数据，只会删除优先级低于正在写入的 state 的数据，
+ *     见：{@link CnStatePersistOptions.priority}
+ * 函数：自定义淘汰策略，见：{@link CnEvictHandler}
+ */
+export type CnEvictionPolicy = 'lru' | 'priority' | CnEvictHandler;
+
+export interface CnQuotaOptions {
+  policy: CnEvictionPolicy;
+  /**
+   * 一次写入最多淘汰并重试的次数
+   * @default 3
+   */
+  maxRetries?: number;
+}
+
+/**
+ * 写入失败且无法恢复时的回调，例如超出容量且淘汰后仍然无法写入
+ *
+ * @param key 写入失败的 storage key，HASH 策略时为 Entry 的 key，序列化器抛出异常时为 state 的持久化 key
+ * @param context 写入失败的持久化事件的上下文
+ */
+export type CnPersistErrorHandler = (error: unknown, key: string, context: CnPersistResultContext) => void;
+
+/**
+ * 写入失败时调用，超出容量时执行淘汰，返回是否释放了空间，其它异常返回 false
+ */
+export type CnQuotaExceededHandler = (
+  error: unknown,
+  key: string,
+  value: string,
+  storage: AsyncStorageLike,
+) => MaybePromise<boolean>;
+
+/**
+ * 各浏览器超出容量时抛出的异常不同，code 22 与 1014 分别为旧版 Chrome、Firefox 的异常码
+ */
+const isQuotaExceededError = (e: unknown): boolean => {
+  if (!(e instanceof DOMException)) {
+    return false;
+  }
+  return e.name === 'QuotaExceededError' || e.name === 'NS_ERROR_DOM_QUOTA_REACHED' || e.code === 22 || e.code === 1014;
+};
+
+/**
+ * 判断 state 的数据是否存储在 storage 中，HASH 策略的 key 集合可能存储在单独的 storage 中
+ */
+const isStoredIn = ({ storage: storage_ }: CnStatePersistContext<unknown>, storage: AsyncStorageLike) => {
+  return storage_ === storage || getHashIndexStorage(storage_) === storage;
+};
+
+/**
+ * 超出容量时的淘汰管理，每个插件实例一个，只淘汰该插件实例的 state 的数据
+ */
+export interface CnQuotaManager {
+  quotaExceededHandler: CnQuotaExceededHandler;
+  maxRetries?: number;
+  /**
+   * 注册参与淘汰的 state
+   */
+  registerState: (statePersistContext: CnStatePersistContext<unknown>) => void;
+  unregisterState: (statePersistContext: CnStatePersistContext<unknown>) => void;
+  /**
+   * 记录 HASH Entry 被写入或恢复，只有使用 'lru' 策略时才记录
+   */
+  touchHashEntry: (persistKey: string, hashKey: string) => void;
+  /**
+   * HASH Entry 被删除后不再参与淘汰
+   */
+  forgetHashEntry: (persistKey: string, hashKey: string) => void;
+  /**
+   * state 的持久化数据被删除后，其所有 HASH Entry 不再参与淘汰
+   */
+  forgetHashEntries: (persistKey: string) => void;
+}
+
+/**
+ * @param debug 淘汰时读写 storage 出错是否打印日志
+ */
+export const produceQuotaManager = ({ policy, maxRetries }: CnQuotaOptions, debug: boolean): CnQuotaManager => {
+  // 淘汰时的写入不再触发淘汰
+  const storageAccessor = produceStorageAccessor(debug);
+  const { getItem, setItem, removeItem } = storageAccessor;
+
+  /**
+   * 参与淘汰的 state，key 为持久化 key
+   */
+  const quotaStates: Map<string, CnStatePersistContext<unknown>> = new Map();
+
+  /**
+   * 只有使用 'lru' 策略时才记录 HASH Entry 的访问顺序
+   */
+  const hashEntryTracking = policy === 'lru';
+
+  /**
+   * HASH Entry 的访问顺序，Map 按照插入顺序迭代，因此最先迭代到的是最久未使用的 Entry
+   * key 为 Entry 的 storage key，值为 Entry 所属 state 的持久化 key 与 hashKey
+   */
+  const hashEntryAccesses: Map<string, [string, string]> = new Map();
+
+  const registerState = (statePersistContext: CnStatePersistContext<unknown>) => {
+    quotaStates.set(statePersistContext.persistKey, statePersistContext);
+  };
+
+  const forgetHashEntries = (persistKey: string) => {
+    hashEntryAccesses.forEach(([persistKey_], storageKey) => {
+      if (persistKey_ === persistKey) {
+        hashEntryAccesses.delete(storageKey);
+      }
+    });
+  };
+
+  const unregisterState = ({ persistKey }: CnStatePersistContext<unknown>) => {
+    quotaStates.delete(persistKey);
+    forgetHashEntries(persistKey);
+  };
+
+  const touchHashEntry = (persistKey: string, hashKey: string) => {
+    const statePersistContext = quotaStates.get(persistKey);
+    // 不参与淘汰的 state 的 Entry 不需要记录
+    if (!hashEntryTracking || !statePersistContext) {
+      return;
+    }
+    const storageKey = getHashEntryKey(statePersistContext.storage, persistKey, hashKey);
+    hashEntryAccesses.delete(storageKey);
+    hashEntryAccesses.set(storageKey, [persistKey, hashKey]);
+  };
+
+  const forgetHashEntry = (persistKey: string, hashKey: string) => {
+    const statePersistContext = quotaStates.get(persistKey);
+    if (statePersistContext) {
+      hashEntryAccesses.delete(getHashEntryKey(statePersistContext.storage, persistKey, hashKey));
+    }
+  };
+
+  /**
+   * 删除 HASH Entry，同时从 key 集合中删除其 key，扫描 storage 时没有 key 集合
+   */
+  const evictHashEntry = (
+    { storage, persistKey, persistedStrings }: CnStatePersistContext<unknown>,
+    hashKey: string,
+  ) => {
+    forgetHashEntry(persistKey, hashKey);
+    // Entry 被删除后，即使值没有变化也需要重新持久化
+    persistedStrings.delete(hashKey);
+    const hashIndexStorage = getHashIndexStorage(storage);
+    return maybeThen(removeItem(storage, getHashEntryKey(storage, persistKey, hashKey)), () => {
+      if (isHashScanned(storage)) {
+        return;
+      }
+      return maybeThen(getItem(hashIndexStorage, persistKey), hashKeysString => {
+        if (!hashKeysString) {
+          return;
+        }
+        const hashKeys: Array<string> = JSON.parse(hashKeysString);
+        return setItem(hashIndexStorage, persistKey, JSON.stringify(hashKeys.filter(hashKey_ => hashKey_ !== hashKey)));
+      });
+    });
+  };
+
+  /**
+   * 删除 state 的全部持久化数据，返回是否删除了数据
+   */
+  const evictState = (statePersistContext: CnStatePersistContext<unknown>): MaybePromise<boolean> => {
+    forgetHashEntries(statePersistContext.persistKey);
+    statePersistContext.persistedStrings.clear();
+    return removeStateData(storageAccessor, statePersistContext);
+  };
+
+  /**
+   * 根据 storage key 找到正在写入的 state，取匹配的最长的持久化 key
+   */
+  const findWritingState = (key: string): CnStatePersistContext<unknown> | undefined => {
+    let writingState: CnStatePersistContext<unknown> | undefined;
+    quotaStates.forEach((statePersistContext, persistKey) => {
+      const matched =
+        key === persistKey ||
+        key === getPersistVersionKey(persistKey) ||
+        key.startsWith(getHashEntryKey(statePersistContext.storage, persistKey, ''));
+      if (matched && (!writingState || persistKey.length > writingState.persistKey.length)) {
+        writingState = statePersistContext;
+      }
+    });
+    return writingState;
+  };
+
+  const evictLeastRecentlyUsed: CnEvictHandler = (key, value, storage) => {
+    // 至少需要释放新值大小的空间，localStorage 按照 key 与 value 的总长度计算容量
+    const required = key.length + value.length;
+    const candidates: Array<[string, CnStatePersistContext<unknown>, string]> = [];
+    hashEntryAccesses.forEach(([persistKey, hashKey], storageKey) => {
+      const statePersistContext = quotaStates.get(persistKey);
+      if (storageKey !== key && statePersistContext && isStoredIn(statePersistContext, storage)) {
+        candidates.push([storageKey, statePersistContext, hashKey]);
+      }
+    });
+    const evictNext = (index: number, released: number): MaybePromise<boolean> => {
+      if (released >= required || index >= candidates.length) {
+        return index > 0;
+      }
+      const [storageKey, statePersistContext, hashKey] = candidates[index];
+      return maybeThen(getItem(statePersistContext.storage, storageKey), persistedValue => {
+        return maybeThen(evictHashEntry(statePersistContext, hashKey), () => {
+          return evictNext(index + 1, released + storageKey.length + (persistedValue?.length ?? 0));
+        });
+      });
+    };
+    return evictNext(0, 0);
+  };
+
+  const evictLowestPriority: CnEvictHandler = (key, _, storage) => {
+    const writingState = findWritingState(key);
+    const writingPriority = writingState?.statePersistOptions.priority ?? 0;
+    const candidates = Array.from(quotaStates.values())
+      .filter(statePersistContext => {
+        return (
+          statePersistContext !== writingState &&
+          isStoredIn(statePersistContext, storage) &&
+          (statePersistContext.statePersistOptions.priority ?? 0) < writingPriority
+        );
+      })
+      .sort((a, b) => (a.statePersistOptions.priority ?? 0) - (b.statePersistOptions.priority ?? 0));
+    // 已经被淘汰或从未持久化的 state 没有数据，跳过并继续尝试下一个
+    const evictNext = (index: number): MaybePromise<boolean> => {
+      if (index >= candidates.length) {
+        return false;
+      }
+      return maybeThen(evictState(candidates[index]), evicted => (evicted ? true : evictNext(index + 1)));
+    };
+    return evictNext(0);
+  };
+
+  const evict: CnEvictHandler =
+    policy === 'lru' ? evictLeastRecentlyUsed : policy === 'priority' ? evictLowestPriority : policy;
+
+  return {
+    quotaExceededHandler: (error, key, value, storage) => {
+      return isQuotaExceededError(error) ? evict(key, value, storage) : false;
+    },
+    maxRetries,
+    registerState,
+    unregisterState,
+    touchHashEntry,
+    forgetHashEntry,
+    forgetHashEntries,
+  };
+};
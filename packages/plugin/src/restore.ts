@@ -1,82 +1,568 @@
-import { isRef } from 'vue';
-import { getPersistHashKey } from './util';
-import { CnStatePersistContext, StateKeyType, StorageLike } from './types';
+import { nextTick, reactive, toRaw } from 'vue';
+import {
+  getHashIndexStorage,
+  getPersistSegmentKey,
+  getPersistVersionKey,
+  getByteSize,
+  isPromise,
+  maybeAll,
+  maybeThen,
+} from './util';
+import { CnListMeta, CnPersistResultContext, CnStatePersistContext, MaybePromise, StateKeyType } from './types';
 import { PiniaPluginContext } from 'pinia';
+import { getHashEntryKey, getHashKeys, isHashScanned } from './storage';
+import { isExpired, unstamp } from './ttl';
+import { callHooks } from './hooks';
 
-export let getItem: (storage: StorageLike, key: string) => string | null;
-export const setGetItem = (debug: boolean) => {
-  getItem = (storage: StorageLike, key: string) => {
-    try {
-      return storage.getItem(key);
-    } catch (e) {
-      if (debug) {
-        console.error(`[cn-persist-pinia-plugin] StorageLike.getItem('${key}')`, e);
+/**
+ * 读取 state 的持久化 key 对应的值
+ * STRING 策略为序列化后的 state，HASH 策略为 key 集合的 JSON，
+ * key 集合从 hash index 的 storage 中读取，storage 可以枚举 key 时通过扫描 storage 得到
+ */
+export const getStateStorageValue = ({
+  storage,
+  persistKey,
+  statePersistOptions: { policy },
+  storePersistContext: { storageAccessor },
+}: CnStatePersistContext<unknown>): MaybePromise<string | null> => {
+  if (policy == 'HASH') {
+    return maybeThen(getHashKeys(storageAccessor, storage, persistKey), hashKeys =>
+      hashKeys ? JSON.stringify(hashKeys) : null,
+    );
+  }
+  return storageAccessor.getItem(storage, persistKey);
+};
+
+/**
+ * 刚从 storage 恢复到 state 的值，没有恢复时返回 undefined，见：{@link CnPersistEngine.restoredValues}
+ */
+export const getRestoredValues = ({
+  persistKey,
+  storePersistContext: {
+    engine: { restoredValues },
+  },
+}: CnStatePersistContext<unknown>): Map<string | undefined, unknown> | undefined => {
+  return restoredValues.get(persistKey);
+};
+
+/**
+ * state 的值是否为刚从 storage 恢复的值
+ * 恢复时对 state 的赋值会触发 watch，而这些值本来就来自 storage，不需要再持久化回去，
+ * 同一个 tick 中对 state 的其它修改会使 state 的值与恢复的值不同，仍然需要持久化
+ */
+export const isRestoredValue = (statePersistContext: CnStatePersistContext<unknown>, stateValue: unknown) => {
+  const restoredValues = getRestoredValues(statePersistContext);
+  return !!restoredValues?.has(undefined) && restoredValues.get(undefined) === toRaw(stateValue);
+};
+
+/**
+ * 记录恢复的值后执行赋值，hashKey 为 undefined 表示恢复整个 state
+ */
+const restoreValue = (
+  {
+    persistKey,
+    storePersistContext: {
+      engine: { restoredValues },
+    },
+  }: CnStatePersistContext<unknown>,
+  hashKey: string | undefined,
+  value: unknown,
+  assign: () => void,
+) => {
+  const recorded = restoredValues.has(persistKey);
+  const values = restoredValues.get(persistKey) ?? new Map<string | undefined, unknown>();
+  values.set(hashKey, toRaw(value));
+  restoredValues.set(persistKey, values);
+  assign();
+  if (!recorded) {
+    // 必须在赋值之后调用 nextTick，此时 watch 的回调已经加入队列，清除操作会在回调之后执行
+    nextTick(() => restoredValues.delete(persistKey));
+  }
+};
+
+/**
+ * 通过响应式代理为 state 赋值，以便已经渲染的组件能够更新
+ * storeState 是 toRaw 后的对象，对于 setup 风格的 store，响应式代理会自动为 Ref 的 value 赋值
+ *
+ * @param persist 为 true 时，赋值触发的 watch 会将值重新持久化，用于数据迁移后以新版本持久化
+ */
+export const setStateValue = (statePersistContext: CnStatePersistContext<unknown>, value: unknown, persist = false) => {
+  const {
+    stateKey,
+    storePersistContext: { storeState },
+  } = statePersistContext;
+  if (persist) {
+    reactive(storeState)[stateKey] = value;
+    return;
+  }
+  restoreValue(statePersistContext, undefined, value, () => {
+    reactive(storeState)[stateKey] = value;
+  });
+};
+
+const isMapState = ({ stateKey, storePersistContext: { storeState } }: CnStatePersistContext<unknown>) => {
+  return reactive(storeState)[stateKey] instanceof Map;
+};
+
+/**
+ * state 的当前值为 Map 或 Set 时，将反序列化得到的数组（Map 为 Entry 数组）恢复为 Map 或 Set
+ * 缺省的序列化器将 Map 与 Set 序列化为数组，见：{@link DEFAULT_STATE_SERIALIZER}
+ */
+const toCollection = (
+  { stateKey, storePersistContext: { storeState } }: CnStatePersistContext<unknown>,
+  value: unknown,
+): unknown => {
+  if (!Array.isArray(value)) {
+    return value;
+  }
+  const currentValue = reactive(storeState)[stateKey];
+  if (currentValue instanceof Map) {
+    return new Map(value);
+  }
+  if (currentValue instanceof Set) {
+    return new Set(value);
+  }
+  return value;
+};
+
+/**
+ * 迁移函数，将反序列化后的旧版本的值迁移为当前版本
+ */
+export type CnMigrate = (value: unknown) => unknown;
+
+/**
+ * 生成从 fromVersion 逐个版本迁移到当前版本的迁移函数，缺失的版本视为不需要迁移
+ */
+export const produceMigrate = (
+  fromVersion: number,
+  { statePersistOptions: { version = 0, migrations = {} } }: CnStatePersistContext<unknown>,
+): CnMigrate => {
+  return value => {
+    let value_ = value;
+    for (let v = fromVersion + 1; v <= version; v++) {
+      const migration = migrations[v];
+      if (migration) {
+        value_ = migration(value_);
       }
     }
-    return null;
+    return value_;
   };
 };
 
-export const restoreFromStoreValue = (storageValue: string, statePersistContext: CnStatePersistContext<unknown>) => {
+/**
+ * 去掉持久化值的写入时间戳
+ * 配置了 ttl 且已过期时，从 storage 中删除该值并调用 onExpire，返回 null，即不恢复
+ *
+ * @param storageKey 值在 storage 中的 key，HASH 策略时为 Entry 的 key
+ * @param hashKey HASH 策略时为 Entry 在 Record 中的 key
+ */
+const unstampPersistedValue = (
+  persistedValue: string,
+  storageKey: string,
+  {
+    stateKey,
+    storage,
+    statePersistOptions: { ttl, onExpire },
+    storePersistContext: { storageAccessor },
+  }: CnStatePersistContext<unknown>,
+  hashKey?: string,
+): string | null => {
+  const [value, timestamp] = unstamp(persistedValue);
+  if (ttl == null || !isExpired(timestamp, ttl)) {
+    return value;
+  }
+  storageAccessor.removeItem(storage, storageKey);
+  onExpire?.(stateKey, hashKey);
+  return null;
+};
+
+/**
+ * 从 state 的持久化 key 对应的值恢复 state，调用恢复钩子，见：{@link CnPersistHooks}
+ * 通过包装 storage 的读取，统计恢复时读取的字节数
+ * 反序列化器或迁移函数抛出的异常不再向外抛出，而是通过 onRestoreError 通知
+ */
+export const restoreFromStoreValue = (
+  storageValue: string,
+  statePersistContext: CnStatePersistContext<unknown>,
+): MaybePromise<void> => {
+  const {
+    stateKey,
+    persistKey,
+    statePersistOptions: { policy },
+    storePersistContext,
+  } = statePersistContext;
+  const { storeId, debug, storageAccessor } = storePersistContext;
+  const start = Date.now();
+  let size = getByteSize(storageValue);
+  const observedContext: CnStatePersistContext<unknown> = {
+    ...statePersistContext,
+    storePersistContext: {
+      ...storePersistContext,
+      storageAccessor: {
+        ...storageAccessor,
+        getItem: (storage, key) => {
+          return maybeThen(storageAccessor.getItem(storage, key), persistedValue => {
+            size += persistedValue ? getByteSize(persistedValue) : 0;
+            return persistedValue;
+          });
+        },
+      },
+    },
+  };
+  const getResultContext = (): CnPersistResultContext => {
+    return { storeId, stateKey, persistKey, type: policy!, size, duration: Date.now() - start };
+  };
+  const onRestored = () => callHooks(storePersistContext, 'onRestored', getResultContext());
+  const onException = (e: unknown) => {
+    if (debug) {
+      console.error(`[cn-persist-pinia-plugin] restore '${persistKey}'`, e);
+    }
+    callHooks(storePersistContext, 'onRestoreError', e, persistKey, getResultContext());
+  };
+  try {
+    const restored = restoreVersioned(storageValue, observedContext);
+    if (isPromise(restored)) {
+      return restored.then(onRestored, onException);
+    }
+    onRestored();
+  } catch (e) {
+    onException(e);
+  }
+};
+
+/**
+ * 配置了版本号时，先读取持久化数据的版本号，需要时在恢复的同时进行迁移
+ */
+const restoreVersioned = (
+  storageValue: string,
+  statePersistContext: CnStatePersistContext<unknown>,
+): MaybePromise<void> => {
+  const {
+    storage,
+    persistKey,
+    statePersistOptions: { version },
+    storePersistContext: { debug, storageAccessor },
+  } = statePersistContext;
+  if (version == null) {
+    return restoreByPolicy(storageValue, statePersistContext);
+  }
+  return maybeThen(storageAccessor.getItem(storage, getPersistVersionKey(persistKey)), persistedVersion => {
+    // 没有版本号的旧数据视为版本 0
+    const fromVersion = persistedVersion ? Number(persistedVersion) : 0;
+    if (fromVersion > version) {
+      if (debug) {
+        console.error(
+          `[cn-persist-pinia-plugin] persisted version ${fromVersion} of '${persistKey}' is newer than ${version}`,
+        );
+      }
+      return;
+    }
+    const migrate = fromVersion < version ? produceMigrate(fromVersion, statePersistContext) : undefined;
+    return restoreByPolicy(storageValue, statePersistContext, migrate);
+  });
+};
+
+const restoreByPolicy = (
+  storageValue: string,
+  statePersistContext: CnStatePersistContext<unknown>,
+  migrate?: CnMigrate,
+): MaybePromise<void> => {
   const {
     statePersistOptions: { policy },
   } = statePersistContext;
   switch (policy) {
     case 'STRING':
-      restoreString(storageValue, statePersistContext);
-      break;
+      return restoreString(storageValue, statePersistContext, migrate);
     case 'HASH':
-      restoreHash(storageValue, statePersistContext);
-      break;
+      return restoreHash(storageValue, statePersistContext, migrate);
+    case 'LIST':
+      return restoreList(storageValue, statePersistContext, migrate);
   }
 };
 
 // 恢复 string 类型的持久化数据
-export const restoreString = (stringValue: string, statePersistContext: CnStatePersistContext<unknown>) => {
+export const restoreString = (
+  stringValue: string,
+  statePersistContext: CnStatePersistContext<unknown>,
+  migrate?: CnMigrate,
+) => {
   const {
-    stateKey,
+    persistKey,
+    persistedStrings,
     statePersistOptions: { deserialize },
-    storePersistContext: { storeState },
   } = statePersistContext;
-  const value_ = deserialize!(stringValue);
-  if (value_ != null) {
-    const stateValue = storeState[stateKey];
-    if (isRef(stateValue)) {
-      stateValue.value = value_;
-    } else {
-      storeState[stateKey] = value_;
-    }
+  const unstampedValue = unstampPersistedValue(stringValue, persistKey, statePersistContext);
+  if (unstampedValue == null) {
+    return;
   }
+  return maybeThen(deserialize!(unstampedValue), value_ => {
+    if (value_ != null) {
+      persistedStrings.clear();
+      const stateValue = migrate ? migrate(value_) : value_;
+      setStateValue(statePersistContext, toCollection(statePersistContext, stateValue), !!migrate);
+    }
+  });
 };
 
-// 恢复 hash 类型的持久化数据
+// 恢复 hash 类型的持久化数据，migrate 针对的是每个 Entry 的 Value
 export const restoreHash = (
   stringValue: string,
-  {
-    stateKey,
+  statePersistContext: CnStatePersistContext<unknown>,
+  migrate?: CnMigrate,
+) => {
+  const {
     persistKey,
     storage,
+    persistedHashValues,
+    persistedStrings,
     statePersistOptions: { deserialize, deserializePostHandler },
-    storePersistContext: { storeState },
-  }: CnStatePersistContext<unknown>,
-) => {
-  const hashValue: Record<string, unknown> = {};
+    storePersistContext: {
+      storageAccessor: { getItem, setItem },
+      engine: { quotaManager },
+    },
+  } = statePersistContext;
   const hashKeys: Array<string> = JSON.parse(stringValue);
-  hashKeys.forEach(hashKey => {
-    const persistValue = getItem(storage, getPersistHashKey(persistKey, hashKey));
-    if (persistValue != null) {
-      const value_ = deserialize!(persistValue);
+  // 异步 storage 时并发读取所有 Entry
+  const persistValues = maybeAll(
+    hashKeys.map(hashKey => getItem(storage, getHashEntryKey(storage, persistKey, hashKey))),
+  );
+  const values = maybeThen(persistValues, persistValues_ => {
+    const unstampedValues = persistValues_.map((persistValue, index) => {
+      const hashKey = hashKeys[index];
+      return persistValue != null
+        ? unstampPersistedValue(
+            persistValue,
+            getHashEntryKey(storage, persistKey, hashKey),
+            statePersistContext,
+            hashKey,
+          )
+        : null;
+    });
+    // 有 Entry 过期时，从 key 集合中删除过期的 key，扫描 storage 时没有 key 集合
+    if (
+      !isHashScanned(storage) &&
+      unstampedValues.some((unstampedValue, index) => unstampedValue == null && persistValues_[index] != null)
+    ) {
+      const hashKeysToKeep = hashKeys.filter(
+        (_, index) => persistValues_[index] == null || unstampedValues[index] != null,
+      );
+      setItem(getHashIndexStorage(storage), persistKey, JSON.stringify(hashKeysToKeep));
+    }
+    return maybeAll(
+      unstampedValues.map(unstampedValue => (unstampedValue != null ? deserialize!(unstampedValue) : null)),
+    );
+  });
+  return maybeThen(values, values_ => {
+    const hashValue: Record<string, unknown> = {};
+    persistedHashValues.clear();
+    persistedStrings.clear();
+    values_.forEach((value_, index) => {
       if (value_ != null) {
-        hashValue[hashKey] = value_;
+        hashValue[hashKeys[index]] = migrate ? migrate(value_) : value_;
+        persistedHashValues.set(hashKeys[index], hashValue[hashKeys[index]]);
+        quotaManager?.touchHashEntry(persistKey, hashKeys[index]);
       }
+    });
+    // Map 类型的 state 恢复为 Map
+    const stateValue = isMapState(statePersistContext) ? new Map(Object.entries(hashValue)) : hashValue;
+    setStateValue(statePersistContext, deserializePostHandler!(stateValue), !!migrate);
+  });
+};
+
+/**
+ * 删除过期的元素后，将剩余元素的持久化值按照原样重新分段写入，保留每个元素的写入时间，并删除多余的旧分段
+ */
+const compactList = (
+  persistValues: Array<string>,
+  { length, segmentSize }: CnListMeta,
+  { persistKey, storage, storePersistContext: { storageAccessor } }: CnStatePersistContext<unknown>,
+): MaybePromise<void> => {
+  const writes: Array<MaybePromise<void>> = [];
+  for (let segmentIndex = 0; segmentIndex < Math.ceil(length / segmentSize); segmentIndex++) {
+    const segmentKey = getPersistSegmentKey(persistKey, segmentIndex);
+    const segment = persistValues.slice(segmentIndex * segmentSize, (segmentIndex + 1) * segmentSize);
+    writes.push(
+      segment.length
+        ? storageAccessor.setItem(storage, segmentKey, JSON.stringify(segment))
+        : storageAccessor.removeItem(storage, segmentKey),
+    );
+  }
+  const listMeta: CnListMeta = { length: persistValues.length, segmentSize };
+  writes.push(storageAccessor.setItem(storage, persistKey, JSON.stringify(listMeta)));
+  return maybeThen(maybeAll(writes), () => {});
+};
+
+/**
+ * 恢复 list 类型的持久化数据，stringValue 为分段信息，migrate 针对的是每个元素
+ * 配置了 ttl 时，按照每个元素的写入时间跳过过期的元素，并将剩余的元素重新分段写入
+ * 有元素缺失，或分段大小已经修改时，恢复后重新持久化整个 list，使分段与 state 保持一致
+ * 反序列化为 null 的元素（例如缺省的序列化器将 null 序列化为 ''）保留为 null，以免后面的元素的下标改变
+ */
+export const restoreList = (
+  stringValue: string,
+  statePersistContext: CnStatePersistContext<unknown>,
+  migrate?: CnMigrate,
+) => {
+  const {
+    persistKey,
+    storage,
+    stateKey,
+    statePersistOptions: { deserialize, deserializePostHandler, segmentSize, ttl, onExpire },
+    storePersistContext: { storageAccessor },
+  } = statePersistContext;
+  const listMeta: CnListMeta = JSON.parse(stringValue);
+  const segmentCount = Math.ceil(listMeta.length / listMeta.segmentSize);
+  // 异步 storage 时并发读取所有分段
+  const segmentValues = maybeAll(
+    Array.from({ length: segmentCount }, (_, segmentIndex) =>
+      storageAccessor.getItem(storage, getPersistSegmentKey(persistKey, segmentIndex)),
+    ),
+  );
+  let unexpiredValues: Array<string> = [];
+  let expired = false;
+  const values = maybeThen(segmentValues, segmentValues_ => {
+    const persistValues: Array<string> = [];
+    segmentValues_.forEach(segmentValue => {
+      if (segmentValue) {
+        persistValues.push(...JSON.parse(segmentValue));
+      }
+    });
+    unexpiredValues =
+      ttl == null ? persistValues : persistValues.filter(persistValue => !isExpired(unstamp(persistValue)[1], ttl));
+    expired = unexpiredValues.length < persistValues.length;
+    if (expired) {
+      onExpire?.(stateKey);
+    }
+    return maybeAll(unexpiredValues.map(persistValue => deserialize!(unstamp(persistValue)[0])));
+  });
+  return maybeThen(values, values_ => {
+    const list = values_.map(value_ => (value_ != null && migrate ? migrate(value_) : value_));
+    // 只有元素过期时，不重新序列化剩余的元素，以免刷新它们的写入时间
+    const compact = expired && !migrate && list.length == unexpiredValues.length && listMeta.segmentSize == segmentSize;
+    const persist = !compact && (!!migrate || list.length != listMeta.length || listMeta.segmentSize != segmentSize);
+    setStateValue(statePersistContext, deserializePostHandler!(list), persist);
+    if (compact) {
+      return compactList(unexpiredValues, listMeta, statePersistContext);
     }
   });
-  const stateValue = storeState[stateKey];
-  if (isRef(stateValue)) {
-    stateValue.value = deserializePostHandler!(hashValue);
-  } else {
-    storeState[stateKey] = deserializePostHandler!(hashValue);
+};
+
+/**
+ * Map 类型的 state 是否正在恢复单个 Entry，见：{@link CnPersistEngine.restoringMapPersistKeys}
+ * 对 Map 的修改是被同步拦截并持久化的，因此同步地设置与清除标记，而不是在 nextTick 中清除
+ */
+export const isRestoringMap = ({
+  persistKey,
+  storePersistContext: {
+    engine: { restoringMapPersistKeys },
+  },
+}: CnStatePersistContext<unknown>) => {
+  return restoringMapPersistKeys.has(persistKey);
+};
+
+type CnHashValue = Record<string, unknown> | Map<string, unknown>;
+
+/**
+ * 修改 HASH 策略的 state 的 Entry，state 可以是 Record 也可以是 Map
+ */
+const mutateHashValue = (
+  statePersistContext: CnStatePersistContext<unknown>,
+  hashValue: CnHashValue,
+  hashKey: string,
+  value?: unknown,
+) => {
+  const {
+    persistKey,
+    storePersistContext: {
+      engine: { restoringMapPersistKeys },
+    },
+  } = statePersistContext;
+  if (!(hashValue instanceof Map)) {
+    // 开启 autoHash 时，对 Record 的修改会触发 deep watch，记录恢复的 Entry，只跳过这些 Entry 的持久化
+    restoreValue(statePersistContext, hashKey, value, () => {
+      if (value === undefined) {
+        delete hashValue[hashKey];
+      } else {
+        hashValue[hashKey] = value;
+      }
+    });
+    return;
+  }
+  restoringMapPersistKeys.add(persistKey);
+  try {
+    if (value === undefined) {
+      hashValue.delete(hashKey);
+    } else {
+      hashValue.set(hashKey, value);
+    }
+  } finally {
+    restoringMapPersistKeys.delete(persistKey);
+  }
+};
+
+/**
+ * 恢复 hash 类型的单个 Entry，stringValue 为 null 表示 Entry 已被删除
+ * 注意：不会调用 deserializePostHandler，因为它针对的是整个 Record
+ */
+export const restoreHashEntry = (
+  hashKey: string,
+  stringValue: string | null,
+  statePersistContext: CnStatePersistContext<unknown>,
+) => {
+  const {
+    stateKey,
+    storage,
+    persistKey,
+    persistedHashValues,
+    persistedStrings,
+    statePersistOptions: { deserialize },
+    storePersistContext: { storeState },
+  } = statePersistContext;
+  const hashValue = reactive(storeState)[stateKey] as CnHashValue | undefined;
+  if (!hashValue) {
+    return;
+  }
+  const unstampedValue =
+    stringValue == null
+      ? null
+      : unstampPersistedValue(stringValue, getHashEntryKey(storage, persistKey, hashKey), statePersistContext, hashKey);
+  persistedStrings.delete(hashKey);
+  if (unstampedValue == null) {
+    persistedHashValues.delete(hashKey);
+    mutateHashValue(statePersistContext, hashValue, hashKey);
+    return;
+  }
+  return maybeThen(deserialize!(unstampedValue), value_ => {
+    if (value_ != null) {
+      persistedHashValues.set(hashKey, value_);
+      mutateHashValue(statePersistContext, hashValue, hashKey, value_);
+    }
+  });
+};
+
+/**
+ * 根据持久化的 key 集合，删除 hash 类型的 state 中已经不存在的 Entry
+ */
+export const pruneHash = (stringValue: string, statePersistContext: CnStatePersistContext<unknown>) => {
+  const {
+    stateKey,
+    persistedHashValues,
+    persistedStrings,
+    storePersistContext: { storeState },
+  } = statePersistContext;
+  const hashValue = reactive(storeState)[stateKey] as CnHashValue | undefined;
+  if (!hashValue) {
+    return;
   }
+  const hashKeySet: Set<string> = new Set(JSON.parse(stringValue));
+  const hashKeys = hashValue instanceof Map ? Array.from(hashValue.keys()) : Object.keys(hashValue);
+  hashKeys.forEach(hashKey => {
+    if (!hashKeySet.has(hashKey)) {
+      persistedHashValues.delete(hashKey);
+      persistedStrings.delete(hashKey);
+      mutateHashValue(statePersistContext, hashValue, hashKey);
+    }
+  });
 };
 
 export const produceStoreHydrate = (
@@ -86,29 +572,31 @@ export const produceStoreHydrate = (
   afterRestore?: (context: PiniaPluginContext) => void,
 ) => {
   if (statePersistContextMap.size < 1) {
-    return () => {};
+    return () => Promise.resolve();
   }
-  return ({ runHooks = true } = {}) => {
+  /**
+   * 同步 storage 时，恢复操作在调用 $hydrate 时同步完成，返回的 Promise 仅用于统一接口
+   * 异步 storage 时，返回的 Promise 在所有 state 恢复完成且 afterRestore 执行后 resolve
+   */
+  return ({ runHooks = true } = {}): Promise<void> => {
     if (runHooks) {
       beforeRestore?.(context);
     }
-    statePersistContextMap.forEach(statePersistContext => {
-      const { storage, persistKey } = statePersistContext;
-      const storageValue = getItem(storage, persistKey);
-      if (storageValue) {
-        restoreFromStoreValue(storageValue, statePersistContext);
-      }
-    });
-    if (runHooks) {
-      afterRestore?.(context);
-    }
+    const restored = maybeAll(Array.from(statePersistContextMap.values()).map(restoreState));
+    return Promise.resolve(
+      maybeThen(restored, () => {
+        if (runHooks) {
+          afterRestore?.(context);
+        }
+      }),
+    );
   };
 };
 
-export const restoreState = (statePersistContext: CnStatePersistContext<unknown>) => {
-  const { storage, persistKey } = statePersistContext;
-  const storageValue = getItem(storage, persistKey);
-  if (storageValue) {
-    restoreFromStoreValue(storageValue, statePersistContext);
-  }
+export const restoreState = (statePersistContext: CnStatePersistContext<unknown>): MaybePromise<void> => {
+  return maybeThen(getStateStorageValue(statePersistContext), storageValue => {
+    if (storageValue) {
+      return restoreFromStoreValue(storageValue, statePersistContext);
+    }
+  });
 };
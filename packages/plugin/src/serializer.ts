@@ -0,0 +1,191 @@
+import { toRaw } from 'vue';
+import { CnStateDeserializer, CnStateSerializer } from './types';
+
+/**
+ * 无法用 JSON 表示的特殊值，使用负数下标表示
+ */
+const UNDEFINED = -1;
+const NAN = -2;
+const POSITIVE_INFINITY = -3;
+const NEGATIVE_INFINITY = -4;
+const NEGATIVE_ZERO = -5;
+
+/**
+ * 将值展开为扁平的数组，数组的第一个元素为根值，对象之间通过数组下标相互引用，因此可以表示循环引用与共享引用
+ *
+ * 数组中的每个元素为：
+ * 字符串、有限数字、布尔值或 null：值本身
+ * 普通对象：字段值为下标的对象
+ * 普通数组：元素为下标的数组
+ * 其它类型：第一个元素为类型名的数组，例如 ['Date', '2024-01-01T00:00:00.000Z']、['Map', k1, v1, k2, v2]、['Set', v1, v2]、['BigInt', '1']
+ *
+ * 函数与 Symbol 视为 undefined，对象中值为函数的字段会被忽略
+ */
+export const richStringify = (value: unknown): string => {
+  const values: Array<unknown> = [];
+  const indexes: Map<unknown, number> = new Map();
+
+  const flatten = (value_: unknown): number => {
+    if (value_ === undefined || typeof value_ === 'function' || typeof value_ === 'symbol') {
+      return UNDEFINED;
+    }
+    if (typeof value_ === 'number') {
+      if (Number.isNaN(value_)) {
+        return NAN;
+      }
+      if (value_ === Infinity) {
+        return POSITIVE_INFINITY;
+      }
+      if (value_ === -Infinity) {
+        return NEGATIVE_INFINITY;
+      }
+      if (Object.is(value_, -0)) {
+        return NEGATIVE_ZERO;
+      }
+    }
+    // 响应式代理与原始对象视为同一个对象
+    const raw = typeof value_ === 'object' && value_ !== null ? toRaw(value_) : value_;
+    const existingIndex = indexes.get(raw);
+    if (existingIndex != null) {
+      return existingIndex;
+    }
+    const index = values.length;
+    // 先占位并记录下标，展开子值时遇到循环引用会直接返回该下标
+    values.push(null);
+    indexes.set(raw, index);
+    values[index] = encode(raw);
+    return index;
+  };
+
+  const encode = (raw: unknown): unknown => {
+    if (typeof raw === 'bigint') {
+      return ['BigInt', raw.toString()];
+    }
+    if (typeof raw !== 'object' || raw === null) {
+      return raw;
+    }
+    if (raw instanceof Date) {
+      return ['Date', Number.isNaN(raw.getTime()) ? '' : raw.toISOString()];
+    }
+    if (raw instanceof Map) {
+      const encoded: Array<unknown> = ['Map'];
+      raw.forEach((v, k) => encoded.push(flatten(k), flatten(v)));
+      return encoded;
+    }
+    if (raw instanceof Set) {
+      const encoded: Array<unknown> = ['Set'];
+      raw.forEach(v => encoded.push(flatten(v)));
+      return encoded;
+    }
+    if (Array.isArray(raw)) {
+      return Array.from(raw, flatten);
+    }
+    const encoded: Record<string, number> = {};
+    Object.entries(raw).forEach(([key, v]) => {
+      if (typeof v !== 'function') {
+        encoded[key] = flatten(v);
+      }
+    });
+    return encoded;
+  };
+
+  const rootIndex = flatten(value);
+  return JSON.stringify(rootIndex < 0 ? rootIndex : values);
+};
+
+/**
+ * {@link richStringify} 的逆操作
+ */
+export const richParse = (text: string): unknown => {
+  const parsed: number | Array<unknown> = JSON.parse(text);
+  if (typeof parsed === 'number') {
+    return hydrateConstant(parsed);
+  }
+  const hydrated: Map<number, unknown> = new Map();
+
+  const hydrate = (index: number): unknown => {
+    if (index < 0) {
+      return hydrateConstant(index);
+    }
+    if (hydrated.has(index)) {
+      return hydrated.get(index);
+    }
+    const encoded = parsed[index];
+    if (typeof encoded !== 'object' || encoded === null) {
+      hydrated.set(index, encoded);
+      return encoded;
+    }
+    if (Array.isArray(encoded)) {
+      const [type, ...rest] = encoded;
+      switch (type) {
+        case 'Date': {
+          const date = new Date(rest[0] as string);
+          hydrated.set(index, date);
+          return date;
+        }
+        case 'BigInt': {
+          const bigint = BigInt(rest[0] as string);
+          hydrated.set(index, bigint);
+          return bigint;
+        }
+        case 'Map': {
+          // 先记录再展开子值，以便子值中的循环引用指向同一个 Map
+          const map = new Map();
+          hydrated.set(index, map);
+          for (let i = 0; i < rest.length; i += 2) {
+            map.set(hydrate(rest[i] as number), hydrate(rest[i + 1] as number));
+          }
+          return map;
+        }
+        case 'Set': {
+          const set = new Set();
+          hydrated.set(index, set);
+          rest.forEach(i => set.add(hydrate(i as number)));
+          return set;
+        }
+      }
+      const array: Array<unknown> = [];
+      hydrated.set(index, array);
+      (encoded as Array<number>).forEach((i, n) => {
+        array[n] = hydrate(i);
+      });
+      return array;
+    }
+    const object: Record<string, unknown> = {};
+    hydrated.set(index, object);
+    Object.entries(encoded as Record<string, number>).forEach(([key, i]) => {
+      // 避免通过 __proto__ 修改原型
+      if (key !== '__proto__') {
+        object[key] = hydrate(i);
+      }
+    });
+    return object;
+  };
+
+  return hydrate(0);
+};
+
+const hydrateConstant = (index: number): unknown => {
+  switch (index) {
+    case NAN:
+      return NaN;
+    case POSITIVE_INFINITY:
+      return Infinity;
+    case NEGATIVE_INFINITY:
+      return -Infinity;
+    case NEGATIVE_ZERO:
+      return -0;
+    default:
+      return undefined;
+  }
+};
+
+/**
+ * 保留类型的序列化器，支持 Date、Map、Set、BigInt、undefined、NaN、Infinity、-0，以及循环引用与共享引用
+ * 值为 undefined 时不持久化
+ */
+export const RICH_STATE_SERIALIZER: CnStateSerializer = (newValue?: unknown) =>
+  newValue === undefined ? null : richStringify(newValue);
+
+export const RICH_STATE_DESERIALIZER: CnStateDeserializer = (persistedValue: string | null) =>
+  persistedValue ? richParse(persistedValue) : null;
@@ -0,0 +1,258 @@
+import { reactive, toRaw } from 'vue';
+import {
+  CnPersistEventType,
+  CnPersistPolicy,
+  CnSerializeContext,
+  CnStatePersistContext,
+  CnStorePersistContext,
+  MaybePromise,
+} from './types';
+import { callSerialize, maybeAll, maybeThen } from './util';
+import { getRegisteredStates } from './storage';
+import { clearPersistedState, emitPersistEvent, flushCnPersist, flushPersistEvents } from './persist';
+import { CnMigrate, produceMigrate } from './restore';
+import { unstamp } from './ttl';
+
+const SNAPSHOT_FORMAT = 'cn-persist-snapshot';
+const SNAPSHOT_VERSION = 1;
+
+/**
+ * 快照中的一个 state 的持久化数据
+ */
+export interface CnPersistSnapshotState {
+  storeId: string;
+  stateKey: string;
+  policy: CnPersistPolicy;
+  /**
+   * 数据的版本号，没有配置版本号时为 0，导入时按照当前的版本号进行迁移
+   */
+  version: number;
+  /**
+   * 反序列化后的持久化数据，HASH 策略为所有 Entry 组成的 Record，LIST 策略为所有元素组成的数组
+   */
+  data: unknown;
+}
+
+/**
+ * 所有已创建的 store 的持久化数据的快照，见：{@link exportCnPersistSnapshot}
+ */
+export interface CnPersistSnapshot {
+  format: typeof SNAPSHOT_FORMAT;
+  /**
+   * 快照格式的版本号
+   */
+  version: number;
+  /**
+   * 导出的时间戳
+   */
+  createdAt: number;
+  states: Array<CnPersistSnapshotState>;
+}
+
+export interface CnImportSnapshotOptions {
+  /**
+   * 'replace'：先删除所有已创建的 store 的持久化数据，再写入快照，快照中没有的 state 的数据会被删除，
+   * 这些 state 被恢复为初始值，见：Store.$reset
+   * 'merge'：只写入快照中的 state，快照中没有的 state 的数据，以及快照中没有的 HASH Entry 保持不变
+   * @default 'merge'
+   */
+  mode?: 'replace' | 'merge';
+}
+
+/**
+ * 导出与导入时整体处理 state 的事件类型
+ */
+const SNAPSHOT_EVENT_TYPES: Record<CnPersistPolicy, CnPersistEventType> = {
+  STRING: 'STRING',
+  HASH: 'HASH',
+  LIST: 'LIST_RESET',
+};
+
+/**
+ * 所有已创建的 store 的 state，多个 pinia 实例使用相同的持久化 key 时，只取第一个
+ */
+const getDistinctStates = (): Array<CnStatePersistContext<unknown>> => {
+  const statePersistContexts: Map<string, CnStatePersistContext<unknown>> = new Map();
+  getRegisteredStates('').forEach(statePersistContext => {
+    if (!statePersistContexts.has(statePersistContext.persistKey)) {
+      statePersistContexts.set(statePersistContext.persistKey, statePersistContext);
+    }
+  });
+  return Array.from(statePersistContexts.values());
+};
+
+const getSnapshotStateId = (storeId: string, stateKey: string) => `${storeId}/${stateKey}`;
+
+/**
+ * 将值序列化后再反序列化，得到与 storage 中的持久化数据相同的值，例如 excludes 中的字段会被剔除
+ * 序列化器返回 null 时，该值不会被持久化，返回 null
+ */
+const toPersistedValue = (
+  { stateKey, statePersistOptions: { policy, serialize, deserialize } }: CnStatePersistContext<unknown>,
+  value: unknown,
+  hashKey?: string,
+): MaybePromise<unknown> => {
+  const context: CnSerializeContext = { stateKey, type: SNAPSHOT_EVENT_TYPES[policy!], hashKey, oldValue: undefined };
+  const persistValue = callSerialize(serialize!, value, context);
+  return maybeThen(persistValue, persistValue_ => {
+    return persistValue_ == null ? null : deserialize!(unstamp(persistValue_)[0]);
+  });
+};
+
+/**
+ * 导出 state 的持久化数据，没有持久化数据时返回 null
+ */
+const exportState = (
+  statePersistContext: CnStatePersistContext<unknown>,
+): MaybePromise<CnPersistSnapshotState | null> => {
+  const {
+    stateKey,
+    statePersistOptions: { policy, version = 0 },
+    storePersistContext: { storeId, storeState },
+  } = statePersistContext;
+  // setup store 的 storeState[stateKey] 是 Ref，通过 reactive 解包
+  const value = toRaw(reactive(storeState)[stateKey]);
+  let data: MaybePromise<unknown>;
+  if (policy == 'HASH') {
+    const hashEntries = value instanceof Map ? Array.from(value) : Object.entries(value ?? {});
+    const hashValues = maybeAll(
+      hashEntries.map(([hashKey, hashValue]) => toPersistedValue(statePersistContext, hashValue, String(hashKey))),
+    );
+    data = maybeThen(hashValues, hashValues_ => {
+      const hashObject: Record<string, unknown> = {};
+      hashValues_.forEach((hashValue, index) => {
+        if (hashValue != null) {
+          hashObject[String(hashEntries[index][0])] = hashValue;
+        }
+      });
+      return hashObject;
+    });
+  } else if (policy == 'LIST') {
+    const items = maybeAll(Array.from(value ?? [], item => toPersistedValue(statePersistContext, item)));
+    data = maybeThen(items, items_ => items_.filter(item => item != null));
+  } else {
+    data = toPersistedValue(statePersistContext, value);
+  }
+  return maybeThen(data, data_ => {
+    return data_ == null ? null : { storeId, stateKey, policy: policy!, version, data: data_ };
+  });
+};
+
+/**
+ * 导出所有已创建的 store 的持久化数据，HASH 策略的所有 Entry 会被展开，可以通过 JSON.stringify 保存为文件
+ * 导出前会先持久化所有还在等待防抖的修改，导出的是持久化数据经过反序列化后的值，而不是 storage 中的原始字符串，
+ * 因此加密或压缩的数据会以明文导出，导入时再通过当前的序列化器重新加密或压缩
+ * 注意：使用 'rich' 序列化器时，数据中可能包含 Date、Map 等无法通过 JSON.stringify 保存的值
+ */
+export const exportCnPersistSnapshot = async (): Promise<CnPersistSnapshot> => {
+  await flushCnPersist();
+  const statePersistContexts = getDistinctStates();
+  await Promise.all(statePersistContexts.map(({ storePersistContext }) => storePersistContext.hydrated));
+  const states = await maybeAll(statePersistContexts.map(exportState));
+  return {
+    format: SNAPSHOT_FORMAT,
+    version: SNAPSHOT_VERSION,
+    createdAt: Date.now(),
+    states: states.filter((state): state is CnPersistSnapshotState => state != null),
+  };
+};
+
+/**
+ * 将快照中的数据迁移为当前版本，HASH 策略迁移每个 Entry，LIST 策略迁移每个元素
+ * 快照的版本号比当前的版本号更新时，无法迁移，返回 null
+ */
+const migrateSnapshotState = (
+  { version: fromVersion, data }: CnPersistSnapshotState,
+  statePersistContext: CnStatePersistContext<unknown>,
+): unknown => {
+  const {
+    persistKey,
+    statePersistOptions: { policy, version = 0 },
+    storePersistContext: { debug },
+  } = statePersistContext;
+  if (fromVersion > version) {
+    if (debug) {
+      console.error(
+        `[cn-persist-pinia-plugin] snapshot version ${fromVersion} of '${persistKey}' is newer than ${version}`,
+      );
+    }
+    return null;
+  }
+  if (fromVersion == version) {
+    return data;
+  }
+  const migrate: CnMigrate = produceMigrate(fromVersion, statePersistContext);
+  if (policy == 'HASH') {
+    return Object.fromEntries(Object.entries(data as Record<string, unknown>).map(([k, v]) => [k, migrate(v)]));
+  }
+  if (policy == 'LIST') {
+    return (data as Array<unknown>).map(migrate);
+  }
+  return migrate(data);
+};
+
+/**
+ * 导入 {@link exportCnPersistSnapshot} 导出的快照，数据通过 state 当前的序列化器写入 storage，
+ * 写入完成后对受影响的 store 调用 $hydrate，使 state 与导入的数据一致
+ * 只导入已创建的 store 的 state，按照 store 的 id 与 state 的 key 匹配，因此可以导入到使用了不同 key 前缀的插件实例中
+ * 快照的格式不正确时，返回的 Promise 会 reject
+ */
+export const importCnPersistSnapshot = async (
+  snapshot: CnPersistSnapshot,
+  { mode = 'merge' }: CnImportSnapshotOptions = {},
+): Promise<void> => {
+  if (
+    snapshot?.format !== SNAPSHOT_FORMAT ||
+    !(snapshot.version <= SNAPSHOT_VERSION) ||
+    !Array.isArray(snapshot.states)
+  ) {
+    throw new Error('[cn-persist-pinia-plugin] invalid snapshot');
+  }
+  // 先持久化还在等待防抖的修改，避免其覆盖导入的数据，或在合并时丢失
+  await flushCnPersist();
+  const statePersistContexts = getDistinctStates();
+  await Promise.all(statePersistContexts.map(({ storePersistContext }) => storePersistContext.hydrated));
+  const statePersistContextsById: Map<string, Array<CnStatePersistContext<unknown>>> = new Map();
+  statePersistContexts.forEach(statePersistContext => {
+    const id = getSnapshotStateId(statePersistContext.storePersistContext.storeId, statePersistContext.stateKey);
+    statePersistContextsById.set(id, [...(statePersistContextsById.get(id) ?? []), statePersistContext]);
+  });
+  if (mode == 'replace') {
+    await Promise.all(statePersistContexts.map(clearPersistedState));
+  }
+  const importedStates: Array<CnStatePersistContext<unknown>> = [];
+  snapshot.states.forEach(snapshotState => {
+    const matchedStates = statePersistContextsById.get(
+      getSnapshotStateId(snapshotState.storeId, snapshotState.stateKey),
+    );
+    matchedStates?.forEach(statePersistContext => {
+      const { policy } = statePersistContext.statePersistOptions;
+      // 持久化策略已经修改的 state 无法导入
+      if (policy != snapshotState.policy) {
+        return;
+      }
+      const data = migrateSnapshotState(snapshotState, statePersistContext);
+      if (data == null) {
+        return;
+      }
+      emitPersistEvent(SNAPSHOT_EVENT_TYPES[policy], statePersistContext, data);
+      importedStates.push(statePersistContext);
+    });
+  });
+  await Promise.all(
+    importedStates.map(({ persistKey, storePersistContext: { engine } }) => flushPersistEvents(engine, [persistKey])),
+  );
+  // 多个 pinia 实例使用相同的持久化 key 时，所有实例的 store 都需要恢复，replace 时所有 store 都受影响
+  const importedPersistKeys = new Set(importedStates.map(({ persistKey }) => persistKey));
+  const affectedStores: Set<CnStorePersistContext> = new Set();
+  getRegisteredStates('').forEach(({ persistKey, stateKey, storePersistContext }) => {
+    if (mode == 'replace' && !importedPersistKeys.has(persistKey)) {
+      // 持久化数据已经被删除，$hydrate 不会修改这些 state
+      storePersistContext.resetState(stateKey);
+    }
+    if (mode == 'replace' || importedPersistKeys.has(persistKey)) {
+      affectedStores.add(storePersistContext);
+    }
+  });
+  await Promise.all(Array.from(affectedStores, ({ hydrate }) => hydrate()));
+};
@@ -0,0 +1,136 @@
+import { Pinia } from 'pinia';
+import { CnPersistEngine } from './types';
+import { getPiniaEngine } from './storage';
+
+/**
+ * 一次持久化事件的写入统计
+ */
+export interface CnPersistMetrics {
+  /**
+   * 写入 storage 的次数
+   */
+  writes: number;
+  /**
+   * 写入的值的字节数，按照 UTF-8 编码计算
+   */
+  bytes: number;
+  /**
+   * 序列化器返回 null 而跳过的写入次数
+   */
+  skipped: number;
+  /**
+   * 写入失败的次数
+   */
+  errors: number;
+}
+
+export type CnStatePersistStats = CnPersistMetrics;
+
+export interface CnStorePersistStats extends CnPersistMetrics {
+  /**
+   * key 为 state 名
+   */
+  states: Record<string, CnStatePersistStats>;
+}
+
+export interface CnPersistStats extends CnPersistMetrics {
+  /**
+   * 最近一次持久化缓冲区中的事件（防抖结束或调用 $flush、flushCnPersist）完成的时间戳，还没有持久化过时为 null
+   */
+  lastFlushTime: number | null;
+  /**
+   * key 为 store 的 id
+   */
+  stores: Record<string, CnStorePersistStats>;
+}
+
+const produceMetrics = (): CnPersistMetrics => ({ writes: 0, bytes: 0, skipped: 0, errors: 0 });
+
+const addMetrics = (target: CnPersistMetrics, { writes, bytes, skipped, errors }: CnPersistMetrics) => {
+  target.writes += writes;
+  target.bytes += bytes;
+  target.skipped += skipped;
+  target.errors += errors;
+};
+
+const produceStats = (): CnPersistStats => ({ ...produceMetrics(), lastFlushTime: null, stores: {} });
+
+/**
+ * 所有插件实例的持久化统计，不同插件实例中 id 相同的 store 的统计会合并
+ */
+let stats: CnPersistStats = produceStats();
+
+/**
+ * 每个插件实例各自的持久化统计，插件实例不再使用后随之释放
+ */
+let engineStats: WeakMap<CnPersistEngine, CnPersistStats> = new WeakMap();
+
+const getEngineStats = (engine: CnPersistEngine): CnPersistStats => {
+  let target = engineStats.get(engine);
+  if (!target) {
+    target = produceStats();
+    engineStats.set(engine, target);
+  }
+  return target;
+};
+
+const addStateMetrics = (target: CnPersistStats, storeId: string, stateKey: string, metrics: CnPersistMetrics) => {
+  const storeStats = (target.stores[storeId] ??= { ...produceMetrics(), states: {} });
+  const stateStats = (storeStats.states[stateKey] ??= produceMetrics());
+  addMetrics(target, metrics);
+  addMetrics(storeStats, metrics);
+  addMetrics(stateStats, metrics);
+};
+
+export const recordPersistMetrics = (
+  engine: CnPersistEngine,
+  storeId: string,
+  stateKey: string,
+  metrics: CnPersistMetrics,
+) => {
+  addStateMetrics(stats, storeId, stateKey, metrics);
+  addStateMetrics(getEngineStats(engine), storeId, stateKey, metrics);
+};
+
+export const recordFlush = (engine: CnPersistEngine) => {
+  stats.lastFlushTime = getEngineStats(engine).lastFlushTime = Date.now();
+};
+
+/**
+ * 返回持久化统计，返回的是副本，修改它不会影响统计
+ *
+ * @param pinia 只返回该 pinia 使用的插件实例的统计，不传时返回所有插件实例的统计
+ */
+export const getCnPersistStats = (pinia?: Pinia): CnPersistStats => {
+  const engine = pinia && getPiniaEngine(pinia);
+  if (pinia && !engine) {
+    return produceStats();
+  }
+  const target = engine ? getEngineStats(engine) : stats;
+  const stores: Record<string, CnStorePersistStats> = {};
+  Object.entries(target.stores).forEach(([storeId, storeStats]) => {
+    const states: Record<string, CnStatePersistStats> = {};
+    Object.entries(storeStats.states).forEach(([stateKey, stateStats]) => {
+      states[stateKey] = { ...stateStats };
+    });
+    stores[storeId] = { ...storeStats, states };
+  });
+  return { ...target, stores };
+};
+
+/**
+ * 清空持久化统计
+ *
+ * @param pinia 只清空该 pinia 使用的插件实例的统计，不传时清空所有插件实例的统计
+ */
+export const resetCnPersistStats = (pinia?: Pinia) => {
+  if (!pinia) {
+    stats = produceStats();
+    engineStats = new WeakMap();
+    return;
+  }
+  const engine = getPiniaEngine(pinia);
+  if (engine) {
+    engineStats.delete(engine);
+  }
+};
@@ -0,0 +1,414 @@
+import { Pinia } from 'pinia';
+import { AsyncStorageLike, CnListMeta, CnPersistEngine, CnStatePersistContext, MaybePromise } from './types';
+import {
+  getHashIndexStorage,
+  getPersistHashKey,
+  getPersistSegmentKey,
+  getPersistVersionKey,
+  isPromise,
+  maybeAll,
+  maybeThen,
+} from './util';
+import { CnQuotaExceededHandler } from './quota';
+
+/**
+ * 对 storage 的读写操作进行封装，同步与异步 storage 的异常都会被捕获，debug 为 true 时打印日志
+ * 每个 store 使用自己的封装，因此不同 store 的 debug 配置互不影响
+ */
+export interface CnStorageAccessor {
+  getItem: (storage: AsyncStorageLike, key: string) => MaybePromise<string | null>;
+  /**
+   * @param onPersistError 写入失败且无法恢复时的回调，例如超出容量且淘汰后仍然无法写入
+   */
+  setItem: (
+    storage: AsyncStorageLike,
+    key: string,
+    value: string,
+    onPersistError?: (error: unknown, key: string) => void,
+  ) => MaybePromise<void>;
+  removeItem: (storage: AsyncStorageLike, key: string) => MaybePromise<void>;
+  /**
+   * 枚举 storage 中的所有 key，调用前需要先通过 {@link isEnumerable} 判断 storage 是否可以枚举
+   */
+  getKeys: (storage: AsyncStorageLike) => MaybePromise<Array<string>>;
+}
+
+const produceGetItem = (debug: boolean): CnStorageAccessor['getItem'] => {
+  const onError = (key: string, e: unknown) => {
+    if (debug) {
+      console.error(`[cn-persist-pinia-plugin] StorageLike.getItem('${key}')`, e);
+    }
+    return null;
+  };
+  return (storage, key) => {
+    try {
+      const result = storage.getItem(key);
+      return isPromise(result) ? result.catch(e => onError(key, e)) : result;
+    } catch (e) {
+      return onError(key, e);
+    }
+  };
+};
+
+/**
+ * @param quotaExceededHandler 超出容量时执行淘汰，淘汰成功后重试写入，最多重试 maxRetries 次
+ */
+const produceSetItem = (
+  debug: boolean,
+  quotaExceededHandler?: CnQuotaExceededHandler,
+  maxRetries = 3,
+): CnStorageAccessor['setItem'] => {
+  const write = (
+    storage: AsyncStorageLike,
+    key: string,
+    value: string,
+    retries: number,
+    onPersistError?: (error: unknown, key: string) => void,
+  ): MaybePromise<void> => {
+    const onError = (e: unknown) => {
+      if (debug) {
+        console.error(`[cn-persist-pinia-plugin] StorageLike.setItem('${key}', '${value}')`, e);
+      }
+      onPersistError?.(e, key);
+    };
+    const handleError = (e: unknown): MaybePromise<void> => {
+      if (!quotaExceededHandler || retries >= maxRetries) {
+        onError(e);
+        return;
+      }
+      return maybeThen(quotaExceededHandler(e, key, value, storage), evicted => {
+        if (!evicted) {
+          onError(e);
+          return;
+        }
+        return write(storage, key, value, retries + 1, onPersistError);
+      });
+    };
+    try {
+      const result = storage.setItem(key, value);
+      if (isPromise(result)) {
+        return result.catch(handleError);
+      }
+    } catch (e) {
+      return handleError(e);
+    }
+  };
+  return (storage, key, value, onPersistError) => write(storage, key, value, 0, onPersistError);
+};
+
+const produceRemoveItem = (debug: boolean): CnStorageAccessor['removeItem'] => {
+  const onError = (key: string, e: unknown) => {
+    if (debug) {
+      console.error(`[cn-persist-pinia-plugin] StorageLike.removeItem('${key}')`, e);
+    }
+  };
+  return (storage, key) => {
+    try {
+      const result = storage.removeItem(key);
+      if (isPromise(result)) {
+        return result.catch(e => onError(key, e));
+      }
+    } catch (e) {
+      onError(key, e);
+    }
+  };
+};
+
+/**
+ * storage 是否可以枚举 key，见：{@link AsyncStorageLike.keys}
+ */
+export const isEnumerable = (storage: AsyncStorageLike): boolean => {
+  return (
+    typeof storage.keys === 'function' || (typeof storage.key === 'function' && typeof storage.length === 'number')
+  );
+};
+
+/**
+ * 枚举 storage 中的所有 key，不捕获异常
+ * 优先使用 keys()，否则通过 length 与 key(index) 遍历，例如 localStorage
+ */
+export const enumerateKeys = (storage: AsyncStorageLike): MaybePromise<Array<string>> => {
+  if (storage.keys) {
+    return storage.keys();
+  }
+  const keys: Array<string> = [];
+  for (let index = 0; index < storage.length!; index++) {
+    const key = storage.key!(index);
+    if (key != null) {
+      keys.push(key);
+    }
+  }
+  return keys;
+};
+
+/**
+ * HASH 策略是否扫描 storage 得到 hashKey，而不是持久化 key 集合，见：{@link AsyncStorageLike.hashScan}
+ * 需要显式开启，可以枚举 key 的 storage（例如 localStorage）缺省仍然使用 key 集合，已经持久化的 key 集合不会失效
+ */
+export const isHashScanned = (storage: AsyncStorageLike): boolean => {
+  return storage.hashScan === true && isEnumerable(storage);
+};
+
+/**
+ * 扫描的 HASH Entry 的持久化 key 与 hashKey 之间的分隔符，不会出现在 store id 与 state 名中
+ */
+const HASH_SCAN_SEPARATOR = '\u001f';
+
+/**
+ * HASH Entry 在 storage 中的 key
+ * 扫描的 storage 中使用 {@link HASH_SCAN_SEPARATOR} 连接，'-' 可能出现在 store id 与 state 名中，
+ * 例如 store 'a' 的 state 'b-c' 与 store 'a-b' 的 state 'c'，按照 '-' 扫描时会把其它 state 的数据当作 Entry
+ */
+export const getHashEntryKey = (storage: AsyncStorageLike, persistKey: string, hashKey: string): string => {
+  return isHashScanned(storage)
+    ? `${persistKey}${HASH_SCAN_SEPARATOR}${hashKey}`
+    : getPersistHashKey(persistKey, hashKey);
+};
+
+const produceGetKeys = (debug: boolean): CnStorageAccessor['getKeys'] => {
+  const onError = (e: unknown) => {
+    if (debug) {
+      console.error('[cn-persist-pinia-plugin] StorageLike.keys()', e);
+    }
+    return [];
+  };
+  return storage => {
+    try {
+      const result = enumerateKeys(storage);
+      return isPromise(result) ? result.catch(onError) : result;
+    } catch (e) {
+      return onError(e);
+    }
+  };
+};
+
+/**
+ * @param quotaExceededHandler 见：{@link produceSetItem}
+ */
+export const produceStorageAccessor = (
+  debug: boolean,
+  quotaExceededHandler?: CnQuotaExceededHandler,
+  maxRetries?: number,
+): CnStorageAccessor => {
+  return {
+    getItem: produceGetItem(debug),
+    setItem: produceSetItem(debug, quotaExceededHandler, maxRetries),
+    removeItem: produceRemoveItem(debug),
+    getKeys: produceGetKeys(debug),
+  };
+};
+
+/**
+ * 有已创建的 state 的插件实例，用于在 clearCnPersist 时找到所有插件实例中需要清除的 state
+ * 不同的插件实例可能使用同一个 storage（例如 localStorage），因此需要遍历所有插件实例
+ * state 由插件实例自己持有，这里只通过 WeakRef 引用插件实例，不再使用的插件实例（例如 SSR 时每个请求创建的、
+ * 不会被卸载的应用的插件实例）连同它的 store 可以被回收，见：{@link releaseCnPersist}
+ */
+const registeredEngines: Set<WeakRef<CnPersistEngine>> = new Set();
+
+const engineRefs: WeakMap<CnPersistEngine, WeakRef<CnPersistEngine>> = new WeakMap();
+
+/**
+ * 每个 pinia 使用的插件实例，用于按照 pinia 查询统计与释放插件实例
+ */
+const piniaEngines: WeakMap<Pinia, CnPersistEngine> = new WeakMap();
+
+export const registerPiniaEngine = (pinia: Pinia, engine: CnPersistEngine) => {
+  piniaEngines.set(pinia, engine);
+};
+
+export const getPiniaEngine = (pinia: Pinia): CnPersistEngine | undefined => {
+  return piniaEngines.get(pinia);
+};
+
+/**
+ * 在 state 所属的插件实例中登记 state，见：{@link CnPersistEngine.registeredStates}
+ */
+export const registerStatePersistContext = (statePersistContext: CnStatePersistContext<unknown>) => {
+  const {
+    persistKey,
+    storePersistContext: { engine },
+  } = statePersistContext;
+  let statePersistContexts = engine.registeredStates.get(persistKey);
+  if (!statePersistContexts) {
+    statePersistContexts = new Set();
+    engine.registeredStates.set(persistKey, statePersistContexts);
+  }
+  statePersistContexts.add(statePersistContext);
+  if (!engineRefs.has(engine)) {
+    const engineRef = new WeakRef(engine);
+    engineRefs.set(engine, engineRef);
+    registeredEngines.add(engineRef);
+  }
+};
+
+export const unregisterStatePersistContext = (statePersistContext: CnStatePersistContext<unknown>) => {
+  const {
+    persistKey,
+    storePersistContext: { engine },
+  } = statePersistContext;
+  const statePersistContexts = engine.registeredStates.get(persistKey);
+  statePersistContexts?.delete(statePersistContext);
+  if (statePersistContexts?.size === 0) {
+    engine.registeredStates.delete(persistKey);
+  }
+  if (engine.registeredStates.size === 0) {
+    registeredEngines.delete(engineRefs.get(engine)!);
+    engineRefs.delete(engine);
+  }
+};
+
+/**
+ * 注销 pinia 的所有 state，之后 clearCnPersist、collectCnPersistGarbage 与快照不再包括它们，state 的修改仍然会被持久化
+ * 应用卸载或 store 销毁时会自动注销，不会被卸载的应用（例如 SSR 时每个请求创建的应用）在不再使用时调用，
+ * 需要先调用 flushCnPersist 写入还在等待防抖的修改，例如：
+ * ```ts
+ * await flushCnPersist();
+ * releaseCnPersist(pinia);
+ * ```
+ */
+export const releaseCnPersist = (pinia: Pinia) => {
+  const engine = getPiniaEngine(pinia);
+  if (!engine) {
+    return;
+  }
+  engine.registeredStates.forEach(statePersistContexts => {
+    statePersistContexts.forEach(statePersistContext => {
+      unregisterStatePersistContext(statePersistContext);
+      engine.quotaManager?.unregisterState(statePersistContext);
+    });
+  });
+};
+
+/**
+ * 返回所有插件实例中持久化 key 以 prefix 开头的所有已创建的 state
+ */
+export const getRegisteredStates = (prefix: string): Array<CnStatePersistContext<unknown>> => {
+  const statePersistContexts: Array<CnStatePersistContext<unknown>> = [];
+  registeredEngines.forEach(engineRef => {
+    const engine = engineRef.deref();
+    if (!engine) {
+      registeredEngines.delete(engineRef);
+      return;
+    }
+    engine.registeredStates.forEach((statePersistContexts_, persistKey) => {
+      if (persistKey.startsWith(prefix)) {
+        statePersistContexts.push(...statePersistContexts_);
+      }
+    });
+  });
+  return statePersistContexts;
+};
+
+/**
+ * 需要扫描的可以枚举 key 的 storage，包括 state 使用的 storage 与 HASH 的 key 集合所在的 storage，以及额外传入的 storage
+ *
+ * @param storages 额外扫描的 storage，用于找到还未创建的 store 的数据，不传时为 localStorage
+ */
+export const getScannedStorages = (
+  statePersistContexts: Array<CnStatePersistContext<unknown>>,
+  storages: Array<AsyncStorageLike> = typeof localStorage === 'undefined' ? [] : [localStorage],
+): Array<AsyncStorageLike> => {
+  const scannedStorages: Set<AsyncStorageLike> = new Set(storages);
+  statePersistContexts.forEach(({ storage }) => {
+    scannedStorages.add(storage);
+    scannedStorages.add(getHashIndexStorage(storage));
+  });
+  return Array.from(scannedStorages).filter(isEnumerable);
+};
+
+/**
+ * 按照 Entry 的 key 前缀扫描 storage，返回 HASH 策略的 state 的所有 hashKey
+ */
+const scanHashKeys = (
+  { getKeys }: CnStorageAccessor,
+  storage: AsyncStorageLike,
+  persistKey: string,
+): MaybePromise<Array<string>> => {
+  const prefix = getHashEntryKey(storage, persistKey, '');
+  return maybeThen(getKeys(storage), keys => {
+    return keys.filter(key => key.startsWith(prefix)).map(key => key.slice(prefix.length));
+  });
+};
+
+/**
+ * 读取 HASH 策略的 state 的所有 hashKey，没有持久化数据时返回 null
+ * 开启了扫描时扫描 storage，否则读取持久化的 key 集合，见：{@link isHashScanned}
+ */
+export const getHashKeys = (
+  storageAccessor: CnStorageAccessor,
+  storage: AsyncStorageLike,
+  persistKey: string,
+): MaybePromise<Array<string> | null> => {
+  if (isHashScanned(storage)) {
+    return maybeThen(scanHashKeys(storageAccessor, storage, persistKey), hashKeys => {
+      return hashKeys.length > 0 ? hashKeys : null;
+    });
+  }
+  return maybeThen(storageAccessor.getItem(getHashIndexStorage(storage), persistKey), hashKeysString => {
+    return hashKeysString ? (JSON.parse(hashKeysString) as Array<string>) : null;
+  });
+};
+
+/**
+ * storage 与其中的 key
+ */
+export type CnStorageEntry = [AsyncStorageLike, string];
+
+/**
+ * 返回 state 的全部持久化数据所在的 storage 与 key，没有持久化数据时返回空数组
+ * 包括持久化 key 本身、版本号、HASH 的 Entry 与 key 集合，以及 LIST 的分段
+ * 版本号即使不存在也会返回，读取或删除不存在的 key 没有副作用
+ */
+export const getStateStorageEntries = (
+  storageAccessor: CnStorageAccessor,
+  { storage, persistKey, statePersistOptions: { policy } }: CnStatePersistContext<unknown>,
+): MaybePromise<Array<CnStorageEntry>> => {
+  const versionEntry: CnStorageEntry = [storage, getPersistVersionKey(persistKey)];
+  if (policy == 'HASH') {
+    return maybeThen(getHashKeys(storageAccessor, storage, persistKey), hashKeys => {
+      if (hashKeys == null) {
+        return [];
+      }
+      const entries: Array<CnStorageEntry> = hashKeys.map(hashKey => [
+        storage,
+        getHashEntryKey(storage, persistKey, hashKey),
+      ]);
+      // 扫描 storage 时没有 key 集合
+      if (!isHashScanned(storage)) {
+        entries.push([getHashIndexStorage(storage), persistKey]);
+      }
+      entries.push(versionEntry);
+      return entries;
+    });
+  }
+  return maybeThen(storageAccessor.getItem(storage, persistKey), persistedValue => {
+    if (persistedValue == null) {
+      return [];
+    }
+    const entries: Array<CnStorageEntry> = [[storage, persistKey], versionEntry];
+    if (policy == 'LIST') {
+      const listMeta: CnListMeta = JSON.parse(persistedValue);
+      const segmentCount = Math.ceil(listMeta.length / listMeta.segmentSize);
+      for (let segmentIndex = 0; segmentIndex < segmentCount; segmentIndex++) {
+        entries.push([storage, getPersistSegmentKey(persistKey, segmentIndex)]);
+      }
+    }
+    return entries;
+  });
+};
+
+/**
+ * 删除 state 的全部持久化数据，返回是否删除了数据，见：{@link getStateStorageEntries}
+ */
+export const removeStateData = (
+  storageAccessor: CnStorageAccessor,
+  statePersistContext: CnStatePersistContext<unknown>,
+): MaybePromise<boolean> => {
+  return maybeThen(getStateStorageEntries(storageAccessor, statePersistContext), entries => {
+    if (entries.length < 1) {
+      return false;
+    }
+    return maybeThen(maybeAll(entries.map(([storage, key]) => storageAccessor.removeItem(storage, key))), () => true);
+  });
+};
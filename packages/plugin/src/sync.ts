@@ -0,0 +1,151 @@
+import { onScopeDispose } from 'vue';
+import { AsyncStorageLike, CnCrossTabMode, CnStatePersistContext, MaybePromise, StateKeyType } from './types';
+import { maybeThen } from './util';
+import { getStateStorageValue, pruneHash, restoreHashEntry, restoreList, restoreString } from './restore';
+import { enumerateKeys, getHashEntryKey, isEnumerable } from './storage';
+import { hasPendingPersistEvent } from './persist';
+
+const BROADCAST_CHANNEL_NAME = 'cn-persist-pinia-plugin';
+
+/**
+ * BroadcastChannel 中传递的消息，只通知哪个 key 被写入了，值由接收方从 storage 中读取
+ */
+type CnCrossTabMessage = { key: string };
+
+export const openBroadcastChannel = (debug: boolean): BroadcastChannel | null => {
+  try {
+    return new BroadcastChannel(BROADCAST_CHANNEL_NAME);
+  } catch (e) {
+    if (debug) {
+      console.error('[cn-persist-pinia-plugin] openBroadcastChannel', e);
+    }
+    return null;
+  }
+};
+
+/**
+ * 包装 storage，在写入或删除完成后通过 BroadcastChannel 通知其它标签页
+ */
+export const produceBroadcastStorage = (storage: AsyncStorageLike, channel: BroadcastChannel): AsyncStorageLike => {
+  const post = (key: string) => {
+    channel.postMessage({ key } as CnCrossTabMessage);
+  };
+  const broadcastStorage: AsyncStorageLike = {
+    getItem: key => storage.getItem(key),
+    setItem: (key, value) => maybeThen(storage.setItem(key, value), () => post(key)),
+    removeItem: key => maybeThen(storage.removeItem(key), () => post(key)),
+  };
+  if (isEnumerable(storage)) {
+    broadcastStorage.keys = () => enumerateKeys(storage);
+  }
+  if (storage.hashScan) {
+    broadcastStorage.hashScan = true;
+  }
+  if (storage.hashIndex) {
+    broadcastStorage.hashIndex = produceBroadcastStorage(storage.hashIndex, channel);
+  }
+  return broadcastStorage;
+};
+
+/**
+ * 根据 storage key 找到对应的 state，对于 HASH 策略的 Entry，同时返回 hashKey
+ * 先精确匹配持久化 key，再按照 HASH Entry 的前缀匹配，避免 state 名互为前缀时匹配错误
+ */
+const findCrossTabTarget = (
+  statePersistContextMap: Map<StateKeyType, CnStatePersistContext<unknown>>,
+  key: string,
+): [CnStatePersistContext<unknown>, string?] | null => {
+  for (const statePersistContext of statePersistContextMap.values()) {
+    if (statePersistContext.persistKey === key) {
+      return [statePersistContext];
+    }
+  }
+  let target: [CnStatePersistContext<unknown>, string] | null = null;
+  let targetPrefixLength = 0;
+  for (const statePersistContext of statePersistContextMap.values()) {
+    if (statePersistContext.statePersistOptions.policy != 'HASH') {
+      continue;
+    }
+    const prefix = getHashEntryKey(statePersistContext.storage, statePersistContext.persistKey, '');
+    // 多个前缀都匹配时，取最长的那个
+    if (key.startsWith(prefix) && prefix.length > targetPrefixLength) {
+      target = [statePersistContext, key.slice(prefix.length)];
+      targetPrefixLength = prefix.length;
+    }
+  }
+  return target;
+};
+
+/**
+ * 监听其它标签页对持久化 key 的写入，并只恢复对应的 state 或 HASH Entry
+ *
+ * @param newValue storage 事件中携带的新值，BroadcastChannel 的消息不携带值，为 undefined 时从 storage 读取
+ */
+const produceCrossTabListener = (statePersistContextMap: Map<StateKeyType, CnStatePersistContext<unknown>>) => {
+  return (key: string, newValue?: string | null, storageArea?: Storage | null) => {
+    const target = findCrossTabTarget(statePersistContextMap, key);
+    if (!target) {
+      return;
+    }
+    const [statePersistContext, hashKey] = target;
+    const {
+      storage,
+      statePersistOptions: { policy },
+      storePersistContext: { storageAccessor },
+    } = statePersistContext;
+    if (storageArea && storageArea !== storage) {
+      return;
+    }
+    let storageValue: MaybePromise<string | null>;
+    if (newValue !== undefined) {
+      storageValue = newValue;
+    } else {
+      storageValue =
+        hashKey != null ? storageAccessor.getItem(storage, key) : getStateStorageValue(statePersistContext);
+    }
+    maybeThen(storageValue, value => {
+      if (hashKey != null) {
+        restoreHashEntry(hashKey, value, statePersistContext);
+      } else if (value != null) {
+        if (policy == 'HASH') {
+          // 本地还有未持久化的 Entry 时不裁剪，下次持久化时会重新合并 key 集合
+          if (!hasPendingPersistEvent(statePersistContext)) {
+            pruneHash(value, statePersistContext);
+          }
+        } else if (policy == 'LIST') {
+          // 分段信息在所有分段写入后才写入，因此此时读取到的分段都是最新的
+          restoreList(value, statePersistContext);
+        } else {
+          restoreString(value, statePersistContext);
+        }
+      }
+    });
+  };
+};
+
+/**
+ * 为 store 开启跨标签页同步，store 销毁时自动停止监听
+ * 需要在 store 的 effect scope 中调用，pinia 执行插件时已经处于该 scope 中
+ */
+export const listenCrossTab = (
+  crossTab: CnCrossTabMode,
+  statePersistContextMap: Map<StateKeyType, CnStatePersistContext<unknown>>,
+  channel: BroadcastChannel | null,
+) => {
+  const crossTabListener = produceCrossTabListener(statePersistContextMap);
+  if (crossTab == 'storage') {
+    const storageEventListener = (event: StorageEvent) => {
+      // key 为 null 表示 storage.clear()，不做处理
+      if (event.key != null) {
+        crossTabListener(event.key, event.newValue, event.storageArea);
+      }
+    };
+    window.addEventListener('storage', storageEventListener);
+    onScopeDispose(() => window.removeEventListener('storage', storageEventListener));
+  } else if (channel) {
+    channel.onmessage = (event: MessageEvent<CnCrossTabMessage>) => {
+      crossTabListener(event.data.key);
+    };
+    onScopeDispose(() => channel.close());
+  }
+};
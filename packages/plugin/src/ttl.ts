@@ -0,0 +1,34 @@
+/**
+ * 带写入时间戳的持久化值的前缀，格式为 `cn-ttl:<时间戳>:<值>`
+ * 时间戳包装在压缩与加密之外，因此不需要解密即可判断是否过期
+ */
+const STAMPED_PREFIX = 'cn-ttl:';
+
+/**
+ * 为持久化值加上当前时间作为写入时间戳
+ */
+export const stamp = (persistValue: string): string => {
+  return `${STAMPED_PREFIX}${Date.now()}:${persistValue}`;
+};
+
+/**
+ * 去掉持久化值的写入时间戳，没有时间戳的值（例如配置 ttl 之前持久化的值）返回的时间戳为 null
+ */
+export const unstamp = (persistedValue: string): [string, number | null] => {
+  if (!persistedValue.startsWith(STAMPED_PREFIX)) {
+    return [persistedValue, null];
+  }
+  const separatorIndex = persistedValue.indexOf(':', STAMPED_PREFIX.length);
+  const timestamp = Number(persistedValue.slice(STAMPED_PREFIX.length, separatorIndex));
+  if (separatorIndex < 0 || Number.isNaN(timestamp)) {
+    return [persistedValue, null];
+  }
+  return [persistedValue.slice(separatorIndex + 1), timestamp];
+};
+
+/**
+ * 没有时间戳的值视为未过期
+ */
+export const isExpired = (timestamp: number | null, ttl: number): boolean => {
+  return timestamp != null && Date.now() - timestamp > ttl;
+};
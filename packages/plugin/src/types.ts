@@ -1,11 +1,20 @@
 import { PiniaPluginContext, StateTree } from 'pinia';
+import { CnEncryptionOptions } from './encryption';
+import { CnCompressionOptions } from './compression';
+import { CnPersistErrorHandler, CnQuotaManager, CnQuotaOptions } from './quota';
+import { CnStorageAccessor } from './storage';
 
 export type CnKeyFilter<T> = { [K in keyof T]?: CnKeyFilter<T[K]> | true };
 
 export type StateKeyType = string | number | symbol;
 
 export type CnListenerPersist = (args: Array<unknown>) => void;
-export type StateLevelPersist = (newValue: unknown) => void;
+/**
+ * Action 执行前调用，返回 Action 成功后执行的持久化器
+ * 用于需要记录 Action 执行前的 state 的持久化器，例如 LIST 策略追加元素前的长度
+ */
+export type CnListenerPrePersist = (args: Array<unknown>) => CnListenerPersist;
+export type StateLevelPersist = (newValue: unknown, oldValue?: unknown) => void;
 
 /**
  * Prettify<T> 用于优化源码文档，即鼠标放上去看到的 TypeScript 类型注释
@@ -13,7 +22,49 @@ export type StateLevelPersist = (newValue: unknown) => void;
  */
 type Prettify<T> = { [K in keyof T]: T[K] };
 
-export type StorageLike = Pick<Storage, 'getItem' | 'setItem' | 'removeItem'>;
+export type MaybePromise<T> = T | Promise<T>;
+
+/**
+ * key 与 length 可选，提供时插件可以枚举 storage 中的 key，见：{@link AsyncStorageLike.keys}
+ */
+export type StorageLike = Pick<Storage, 'getItem' | 'setItem' | 'removeItem'> &
+  Partial<Pick<Storage, 'key' | 'length'>>;
+
+/**
+ * 异步 storage，例如 IndexedDB、localForage、Capacitor Preferences 等
+ * 方法可以返回 Promise 也可以直接返回结果，因此 {@link StorageLike} 也满足此类型
+ */
+export interface AsyncStorageLike {
+  getItem: (key: string) => MaybePromise<string | null>;
+  setItem: (key: string, value: string) => MaybePromise<void>;
+  removeItem: (key: string) => MaybePromise<void>;
+  /**
+   * 可选，HASH 策略的 key 集合（hash index）单独使用的 storage
+   * 不提供时，hash index 与其它数据存储在同一个 storage 中
+   */
+  hashIndex?: AsyncStorageLike;
+  /**
+   * 可选，返回 storage 中的所有 key
+   * storage 可以枚举 key 时（提供了 keys，或同时提供了 key 与 length，例如 localStorage），
+   * clearCnPersist 与 gcCnPersist 可以找到还未创建的 store 的数据
+   */
+  keys?: () => MaybePromise<Array<string>>;
+  /**
+   * 可选，为 true 且 storage 可以枚举 key 时，HASH 策略不再持久化 key 集合，恢复时按照 Entry 的 key 前缀扫描 storage，
+   * hashIndex 也不再使用，这样写入 Entry 时不需要读写整个 key 集合
+   * 扫描的 Entry 的 key 使用 '\u001f' 连接持久化 key 与 hashKey，因此 store id 与 state 名中不能包含 '\u001f'
+   * 注意：开启前已经持久化的 key 集合与 Entry 不会被迁移
+   * @default false
+   */
+  hashScan?: boolean;
+  /**
+   * 可选，返回第 index 个 key，与 length 一起提供时，插件可以枚举 storage 中的 key
+   */
+  key?: (index: number) => string | null;
+  length?: number;
+}
+
+export type CnCrossTabMode = 'storage' | 'broadcast';
 
 export type CnPersistStates<S extends StateTree> = { [K in keyof S]?: CnStatePersistOptions<S[K]> };
 
@@ -22,7 +73,65 @@ export type CnPersistMethods = {
   level1HashPersist: CnListenerPersist;
 };
 
-export interface CnPersistOptions<S extends StateTree> {
+/**
+ * 持久化与恢复钩子的上下文
+ */
+export interface CnPersistHookContext {
+  storeId: string;
+  stateKey: string;
+  persistKey: string;
+  /**
+   * 持久化事件类型，恢复时为 state 的持久化策略
+   */
+  type: CnPersistEventType;
+}
+
+/**
+ * 持久化或恢复结束时钩子的上下文
+ */
+export interface CnPersistResultContext extends CnPersistHookContext {
+  /**
+   * 写入或读取的持久化值的字节数，按照 UTF-8 编码计算
+   */
+  size: number;
+  /**
+   * 耗时，单位为毫秒，持久化时从防抖结束开始计算
+   */
+  duration: number;
+}
+
+/**
+ * 恢复失败时的回调，例如反序列化器或迁移函数抛出异常
+ *
+ * @param key 恢复失败的 state 的持久化 key
+ */
+export type CnRestoreErrorHandler = (error: unknown, key: string, context: CnPersistResultContext) => void;
+
+/**
+ * 持久化与恢复的钩子，可以在全局与 store 中配置，两者都配置时先调用全局的钩子
+ * 钩子抛出的异常不会影响持久化与恢复
+ */
+export interface CnPersistHooks {
+  /**
+   * state 的持久化事件防抖结束、序列化之前调用
+   */
+  onBeforePersist?: (context: CnPersistHookContext) => void;
+  /**
+   * state 的持久化事件全部写入成功后调用
+   */
+  onPersisted?: (context: CnPersistResultContext) => void;
+  /**
+   * 写入失败且无法恢复时的回调，例如超出容量且淘汰后仍然无法写入，或序列化器抛出异常
+   */
+  onPersistError?: CnPersistErrorHandler;
+  /**
+   * 初始化或调用 $hydrate 时，state 从 storage 恢复完成后调用
+   */
+  onRestored?: (context: CnPersistResultContext) => void;
+  onRestoreError?: CnRestoreErrorHandler;
+}
+
+export interface CnPersistOptions<S extends StateTree> extends CnPersistHooks {
   /**
    * Storage key to use.
    * @default $store.id
@@ -31,9 +140,10 @@ export interface CnPersistOptions<S extends StateTree> {
 
   /**
    * Where to store persisted state.
+   * 服务端渲染时没有 localStorage，没有配置 storage 的 state 在服务端不持久化
    * @default localStorage
    */
-  storage?: StorageLike;
+  storage?: StorageLike | AsyncStorageLike;
 
   states?: CnPersistStates<S>;
 
@@ -43,6 +153,72 @@ export interface CnPersistOptions<S extends StateTree> {
    */
   debug?: boolean;
   hashActionPrefix?: string;
+  /**
+   * HASH 策略删除 Entry 的 Action 名前缀，见：{@link CnStatePersistOptions.hdelActionName}
+   * @default 'hdelAndPersist'
+   */
+  hdelActionPrefix?: string;
+  /**
+   * LIST 策略追加元素的 Action 名前缀，见：{@link CnStatePersistOptions.lpushActionName}
+   * @default 'lpushAndPersist'
+   */
+  lpushActionPrefix?: string;
+  /**
+   * LIST 策略修改元素的 Action 名前缀，见：{@link CnStatePersistOptions.lsetActionName}
+   * @default 'lsetAndPersist'
+   */
+  lsetActionPrefix?: string;
+
+  /**
+   * 跨标签页同步，当其它标签页写入了某个持久化 key 时，只恢复对应的 state 或 HASH Entry
+   * 同步导致的 state 变化不会再次触发持久化
+   *
+   * 'storage' 或 true：监听 window 的 storage 事件，仅适用于 localStorage 这类会触发 storage 事件的 storage
+   * 'broadcast'：持久化完成后通过 BroadcastChannel 通知其它标签页，适用于任意 storage，例如 IndexedDB
+   * @default false
+   */
+  crossTab?: boolean | CnCrossTabMode;
+
+  /**
+   * 当前 store 所有 state 的持久化数据版本号，state 可以单独配置以覆盖此配置
+   * 见：{@link CnStatePersistOptions.version}
+   */
+  version?: number;
+  /**
+   * 当前 store 所有 state 的迁移函数，state 可以单独配置以覆盖此配置
+   * 见：{@link CnStatePersistOptions.migrations}
+   */
+  migrations?: CnStateMigrations;
+
+  /**
+   * 当前 store 所有 state 的加密配置，state 可以单独配置以覆盖此配置
+   * 见：{@link CnStatePersistOptions.encryption}
+   */
+  encryption?: CnEncryptionOptions;
+
+  /**
+   * 当前 store 所有 state 的压缩配置，state 可以单独配置以覆盖此配置
+   * 见：{@link CnStatePersistOptions.compression}
+   */
+  compression?: boolean | CnCompressionOptions;
+
+  /**
+   * 当前 store 所有 state 的防抖延迟，state 可以单独配置以覆盖此配置
+   * 见：{@link CnStatePersistOptions.debounce}
+   */
+  debounce?: number;
+
+  /**
+   * 当前 store 所有 state 的最长等待时间，state 可以单独配置以覆盖此配置
+   * 见：{@link CnStatePersistOptions.maxWait}
+   */
+  maxWait?: number;
+
+  /**
+   * 当前 store 所有 state 的内置序列化器，state 可以单独配置以覆盖此配置
+   * 见：{@link CnStatePersistOptions.serializer}
+   */
+  serializer?: CnSerializerType;
 
   /**
    * Hook called before state is hydrated from storage.
@@ -58,13 +234,19 @@ export interface CnPersistOptions<S extends StateTree> {
 }
 
 export type CnPersistFactoryOptions = Prettify<
-  Pick<CnPersistOptions<StateTree>, 'storage' | 'debug'> & {
+  Pick<CnPersistOptions<StateTree>, 'storage' | 'debug' | 'crossTab' | 'serializer' | keyof CnPersistHooks> & {
     /**
      * 持久化全局防抖延迟，单位为毫秒
      * 也就是说，所有的持久化操作的间隔不会小于这个间隔时间，避免频繁硬盘 I/O
      * globalDebounce 小于等于 0 时，禁用防抖
+     * store 与 state 可以通过 debounce 覆盖此配置，见：{@link CnStatePersistOptions.debounce}
      */
     globalDebounce?: number;
+    /**
+     * 全局最长等待时间，单位为毫秒，见：{@link CnStatePersistOptions.maxWait}
+     * @default undefined
+     */
+    globalMaxWait?: number;
     /**
      * Global key generator, allows pre/postfixing store keys.
      * @default storeKey => storeKey
@@ -76,9 +258,49 @@ export type CnPersistFactoryOptions = Prettify<
      */
     auto?: boolean;
     hashActionPrefix?: string;
+    hdelActionPrefix?: string;
+    lpushActionPrefix?: string;
+    lsetActionPrefix?: string;
+    /**
+     * 写入超出 storage 容量时，按照配置的淘汰策略释放空间后重试写入
+     * 不配置时，超出容量的写入直接失败
+     * @default undefined
+     */
+    quota?: CnQuotaOptions;
+    /**
+     * 页面被隐藏或卸载时（visibilitychange、pagehide 事件），立即持久化还在等待防抖的修改
+     * @default true
+     */
+    autoFlush?: boolean;
+    /**
+     * 在 Vue Devtools 中注册自定义检查器与时间线，展示各 store 的持久化数据，并记录每一次持久化与恢复
+     * 只在浏览器中生效，且 Devtools 打开后才会执行注册
+     * @default process.env.NODE_ENV !== 'production'，即生产环境缺省关闭，显式配置为 true 时仍然注册
+     */
+    devtools?: boolean;
   }
 >;
 
+export interface CnClearPersistOptions {
+  /**
+   * 只清除 storage key 以该前缀开头的持久化数据，例如通过全局的 key 选项为每个用户的数据添加了前缀时，
+   * 传入 'cn-<用户前缀>' 只清除该用户的数据
+   * @default 'cn-'
+   */
+  prefix?: string;
+  /**
+   * 除了已创建的 store 的 state 所使用的 storage 之外，还需要扫描的 storage，
+   * 用于清除还未创建的 store 的持久化数据，只能扫描可以枚举 key 的 storage，见：{@link AsyncStorageLike.keys}
+   * @default [localStorage]
+   */
+  storages?: Array<AsyncStorageLike>;
+  /**
+   * 读写 storage 出错时是否打印日志
+   * @default false
+   */
+  debug?: boolean;
+}
+
 /**
  * store 域的上下文
  */
@@ -87,10 +309,15 @@ export interface CnStorePersistContext {
    * 当前 store 的所有持久化数据的 storage key 前缀
    */
   key: string;
+  storeId: string;
   debug: boolean;
   states: CnPersistStates<StateTree>;
   storeState: StateTree;
   hashActionPrefix: string;
+  hdelActionPrefix: string;
+  lpushActionPrefix: string;
+  lsetActionPrefix: string;
+  crossTab: CnCrossTabMode | false;
   /**
    * Hook called before state is hydrated from storage.
    * @default undefined
@@ -102,6 +329,30 @@ export interface CnStorePersistContext {
    * @default undefined
    */
   afterRestore?: (context: PiniaPluginContext) => void;
+  /**
+   * 创建当前 store 的插件实例的运行时状态
+   */
+  engine: CnPersistEngine;
+  /**
+   * 按照当前 store 的 debug 配置读写 storage
+   */
+  storageAccessor: CnStorageAccessor;
+  /**
+   * 全局的钩子与当前 store 的钩子
+   */
+  hooks: Array<CnPersistHooks>;
+  /**
+   * store 初始化时从 storage 恢复数据完成后 resolve，与 store 的 $hydrated 相同
+   */
+  hydrated: Promise<void>;
+  /**
+   * 从 storage 恢复当前 store 的所有 state，与 store 的 $hydrate 相同
+   */
+  hydrate: (opts?: { runHooks?: boolean }) => Promise<void>;
+  /**
+   * 将 state 恢复为初始值，与从 storage 恢复相同，不会再次持久化
+   */
+  resetState: (stateKey: string) => void;
 }
 /**
  * state 域的上下文，T 为当前 state 的类型
@@ -110,22 +361,125 @@ export interface CnStatePersistContext<T> {
   stateKey: string;
   persistKey: string;
   hashActionName: string;
+  hdelActionName: string;
+  lpushActionName: string;
+  lsetActionName: string;
   statePersistOptions: CnStatePersistOptions<T>;
   storePersistContext: CnStorePersistContext;
-  storage: StorageLike;
+  storage: AsyncStorageLike;
+  /**
+   * HASH 策略的各 Entry 上一次持久化或从 storage 恢复的值，作为序列化上下文中的旧值
+   */
+  persistedHashValues: Map<string, unknown>;
+  /**
+   * 上一次持久化时序列化器返回的字符串，key 为 HASH Entry 的 key，STRING 策略为 undefined
+   * 作为序列化上下文中的 oldPersistedValue，从 storage 恢复或删除持久化数据时被清除
+   */
+  persistedStrings: Map<string | undefined, string>;
+}
+
+/**
+ * 序列化上下文，作为序列化器的第二个参数传入，同时也作为 this 传入，使用箭头函数时通过参数读取
+ */
+export interface CnSerializeContext {
+  stateKey: string;
+  /**
+   * 触发本次持久化的事件类型
+   */
+  type: CnPersistEventType;
+  /**
+   * HASH 策略序列化 Entry 时，为 Entry 的 key
+   */
+  hashKey?: string;
+  /**
+   * 旧值，即上一次持久化的值
+   * STRING 策略与整体替换 state 时，为防抖期间第一次变化时 watch 回调的旧值
+   * HASH 策略为 Entry 上一次持久化或从 storage 恢复的值，新增的 Entry 为 undefined
+   * LIST 策略为 undefined
+   * 注意：原地修改的对象，新值与旧值是同一个对象，需要比较时使用 oldPersistedValue
+   */
+  oldValue: unknown;
+  /**
+   * 上一次持久化时序列化器返回的字符串，HASH 策略为该 Entry 的，不包括压缩、加密与时间戳
+   * 本页面中还没有持久化过、或者之后从 storage 恢复过时为 undefined，LIST 策略为 undefined
+   */
+  oldPersistedValue?: string;
 }
 
-export type CnStateSerializer = (newValue: unknown) => string | null;
-export type CnStateDeserializer = (persistedValue: string) => unknown | null;
+/**
+ * 序列化器的第二个参数的类型，同时声明为 JSON.stringify 的 replacer，以便 JSON.stringify 可以直接作为序列化器
+ * 实际传入的只是序列化上下文，JSON.stringify 会忽略既不是函数也不是数组的 replacer
+ */
+type CnSerializeContextParameter = CnSerializeContext & ((this: unknown, key: string, value: unknown) => unknown);
+
+/**
+ * 序列化器与反序列化器可以返回 Promise，例如开启加密时
+ * 序列化器的第二个参数为序列化上下文，见：{@link CnSerializeContext}，只有一个参数的函数同样可以作为序列化器，例如 JSON.stringify
+ */
+export type CnStateSerializer = (
+  this: CnSerializeContext,
+  newValue: unknown,
+  context: CnSerializeContextParameter,
+) => MaybePromise<string | null>;
+export type CnStateDeserializer = (persistedValue: string) => MaybePromise<unknown | null>;
 export type CnDeserializePostHandler = (newValue: unknown) => unknown | null;
-export type CnPersistPolicy = 'STRING' | 'HASH';
+/**
+ * 将上一个版本的持久化数据迁移为当前版本，参数与返回值均为反序列化后的值
+ */
+export type CnStateMigration = (persistedValue: unknown) => unknown;
+/**
+ * key 为目标版本号，即 migrations[n] 将版本 n - 1 的数据迁移为版本 n
+ */
+export type CnStateMigrations = Record<number, CnStateMigration>;
+/**
+ * 持久化数据过期时的回调，HASH 策略时每个过期的 Entry 各调用一次，hashKey 为该 Entry 的 key
+ * LIST 策略时有元素过期则调用一次
+ */
+export type CnExpireHandler = (stateKey: string, hashKey?: string) => void;
+export type CnPersistPolicy = 'STRING' | 'HASH' | 'LIST';
+/**
+ * 内置序列化器
+ * json：JSON 序列化，Map 与 Set 序列化为数组
+ * rich：保留 Date、Map、Set、BigInt、undefined 等类型，并支持循环引用
+ */
+export type CnSerializerType = 'json' | 'rich';
 /**
  * 为每个 state 进行配置的配置项类型，T 为正在配置的 state 的类型
  */
 export interface CnStatePersistOptions<T> {
   hashActionName?: string;
+  /**
+   * HASH 策略删除 Entry 的 Action 名，缺省为 hdelActionPrefix 加上首字母大写的 state 名，例如 hdelAndPersistNodes
+   * Action 的第一个参数为要删除的 Entry 的 key，Action 执行成功后删除该 Entry 的持久化数据，并更新 key 集合
+   * 该 Action 是可选的，不存在时只能通过替换整个 state 来清理已删除的 Entry
+   */
+  hdelActionName?: string;
+  /**
+   * HASH 策略自动识别 Record 中新增、被替换与被删除的 Entry，不需要 hashActionName 对应的 Action，
+   * 直接赋值（例如 store.nodes[key] = value）与 $patch 都可以触发 Entry 粒度的持久化
+   * 基于 deep watch 与浅对比实现，只修改 Entry 的 Value 的内部字段时，会持久化整个 Record，
+   * 因此建议通过替换 Entry 的 Value 来修改
+   * @default false
+   */
+  autoHash?: boolean;
+  /**
+   * LIST 策略追加元素的 Action 名，缺省为 lpushActionPrefix 加上首字母大写的 state 名，例如 lpushAndPersistLogs
+   * Action 的参数为追加到数组末尾的元素，Action 执行成功后只持久化新元素所在的分段
+   */
+  lpushActionName?: string;
+  /**
+   * LIST 策略修改元素的 Action 名，缺省为 lsetActionPrefix 加上首字母大写的 state 名，例如 lsetAndPersistLogs
+   * Action 的第一个参数为被修改的元素的下标，Action 执行成功后只持久化该元素所在的分段
+   * 该 Action 是可选的
+   */
+  lsetActionName?: string;
+  /**
+   * LIST 策略每个分段的元素个数
+   * @default 100
+   */
+  segmentSize?: number;
   policy?: CnPersistPolicy;
-  storage?: StorageLike;
+  storage?: StorageLike | AsyncStorageLike;
   /**
    * 仅配置了 includes 时，只持久化 includes 中配置了的字段，
    * 关于 includes 与 excludes 的其它说明，见：{@link CnStatePersistOptions.excludes}
@@ -161,37 +515,190 @@ export interface CnStatePersistOptions<T> {
    *     还需要持久化一个 state 字段名作为持久化 key，值为这个 Record 的 key 集合
    *     即便这样，当 Record 非常大时，也比每次持久化整个 Record 开销小，因为还有重新序列化整个 Record 大对象的开销
    *     反过来说，如果 Record 本来就比较小，则用哪种方式都可以，因为都不会造成卡顿
+   *     state 也可以是 key 为字符串的 Map，此时插件会拦截 Map 的 set 与 delete，不需要 hashActionName 对应的 Action
+   * LIST：
+   *     表示 state 字段的类型为数组，数组按照 segmentSize 分段持久化，适用于聊天记录、审计日志这类只追加的大数组
+   *     通过 lpushActionName、lsetActionName 对应的 Action 追加或修改元素时，只重写受影响的分段
+   *     state 字段名作为持久化 key，值为数组长度与分段大小
+   *     替换整个数组时，重写所有分段
+   *     includes、excludes 与 serialize 针对的是数组的每个元素
    */
   /**
    * 如果返回 null，则不持久化
    * 这给了一个机会阻止持久化，例如对比新值和旧值，发现值相同时可选择不持久化
-   * TODO 传入旧值
+   * 旧值等信息通过第二个参数传入，见：{@link CnSerializeContext}
    */
   serialize?: CnStateSerializer;
   /**
    * 如果返回 null，则不恢复
    */
   deserialize?: CnStateDeserializer;
+  /**
+   * 内置序列化器，未配置 serialize 与 deserialize 时使用，见：{@link CnSerializerType}
+   * rich 序列化器保留对象之间的引用关系，例如树节点的 parent 指针，恢复后仍然指向同一个对象，
+   * 但 HASH 与 LIST 策略的每个 Entry 或元素是分别序列化的，它们之间的引用关系不会保留
+   * 可以在 store 或全局配置，state 的配置优先
+   * @default 'json'
+   */
+  serializer?: CnSerializerType;
   /**
    * 当 state 类型为 Record 类型时，在从持久化恢复时，可能需要对整体进行转换
    * 例如 Entry.value 的对象的一些字段需要从 ID 值转换为指向对应对象的指针
    * 只有在 Record 的所有 Entry 都已经反序列化为对象的情况下，才能获得所有对象的全集
    */
   deserializePostHandler?: CnDeserializePostHandler;
+  /**
+   * 持久化数据的版本号，配置后每次持久化时会将版本号写入 storage，
+   * 恢复时如果 storage 中的版本号小于当前版本号，则逐个版本调用 migrations 进行迁移，
+   * 迁移后的值会重新持久化，没有版本号的旧数据视为版本 0
+   * 如果 storage 中的版本号大于当前版本号，则不恢复
+   *
+   * 迁移在 deserialize 之后执行，当 policy 为 HASH 时，针对的是每个 Entry 的 Value，
+   * 在 deserializePostHandler 之前执行
+   */
+  version?: number;
+  /**
+   * 见：{@link CnStatePersistOptions.version}
+   */
+  migrations?: CnStateMigrations;
+  /**
+   * 通过 Web Crypto 的 AES-GCM 对序列化后的值进行加密，HASH 策略时对每个 Entry 分别加密
+   * 加密包装在 serialize 之外，解密在 deserialize 之前，因此自定义的序列化器拿到的仍然是明文
+   * 设置为 false 可以为单个 state 关闭 store 级别配置的加密
+   * 开启加密之前已经持久化的明文数据仍然可以恢复
+   */
+  encryption?: CnEncryptionOptions | false;
+  /**
+   * 对序列化后超过阈值的值进行 LZ 压缩，压缩结果为 UTF-16 安全的字符串，可以存储到 localStorage 中
+   * HASH 策略时对每个 Entry 分别压缩，压缩在加密之前执行
+   * 压缩后的值带有前缀标记，因此开启压缩之前已经持久化的未压缩数据仍然可以恢复
+   * 设置为 false 可以为单个 state 关闭 store 级别配置的压缩
+   */
+  compression?: boolean | CnCompressionOptions;
+  /**
+   * 持久化数据的有效期，单位为毫秒，配置后每次持久化时会记录写入时间
+   * 恢复时跳过并删除已过期的数据，STRING 策略针对整个 state，HASH 策略针对每个 Entry，
+   * 删除过期的 Entry 后会同时更新 key 集合，LIST 策略针对每个元素，删除过期的元素后剩余的元素重新分段
+   * 没有写入时间的旧数据视为未过期
+   */
+  ttl?: number;
+  /**
+   * 数据过期时的回调，例如重新从服务端获取数据
+   * 见：{@link CnStatePersistOptions.ttl}
+   */
+  onExpire?: CnExpireHandler;
+  /**
+   * 淘汰优先级，超出容量且淘汰策略为 'priority' 时，优先删除优先级低的 state 的持久化数据，
+   * 且只会删除优先级低于正在写入的 state 的数据
+   * @default 0
+   */
+  priority?: number;
+  /**
+   * 防抖延迟，单位为毫秒，覆盖 store 的配置与全局的 globalDebounce
+   * 例如登录凭证这类很小但重要的 state 可以配置为 0，修改后立即持久化，
+   * 而文档内容这类很大的 state 可以配置更长的延迟，以合并更多的修改
+   * 防抖配置（debounce 与 maxWait）相同的 state 共用同一个定时器
+   * 小于等于 0 时，禁用防抖
+   */
+  debounce?: number;
+  /**
+   * 最长等待时间，单位为毫秒，覆盖 store 的配置与全局的 globalMaxWait
+   * 持续修改时防抖会一直推迟持久化，配置后从第一次修改开始最多等待 maxWait 毫秒就会持久化
+   * 不配置时，直到停止修改后才会持久化
+   */
+  maxWait?: number;
 }
 
+/**
+ * LIST 策略的分段信息，存储在 state 的持久化 key 中
+ * 恢复时使用持久化时的分段大小，因此修改分段大小后仍然可以恢复旧数据
+ */
+export type CnListMeta = { length: number; segmentSize: number };
+
 /**
  * 持久化事件类型
  */
-export type CnPersistEventType = 'STRING' | 'HASH' | 'HASH_RESET';
+export type CnPersistEventType = 'STRING' | 'HASH' | 'HASH_RESET' | 'LIST' | 'LIST_RESET';
 
 export type CnPersistEvent = {
   type: CnPersistEventType;
   newValue?: unknown;
+  /**
+   * 防抖期间第一次变化时的旧值，见：{@link CnSerializeContext.oldValue}
+   */
+  oldValue?: unknown;
   serialize: CnStateSerializer;
-  storage: StorageLike;
+  storage: AsyncStorageLike;
+  stateKey: string;
+  /**
+   * 见：{@link CnStatePersistContext.persistedHashValues}
+   */
+  persistedHashValues: Map<string, unknown>;
+  /**
+   * 见：{@link CnStatePersistContext.persistedStrings}
+   */
+  persistedStrings: Map<string | undefined, string>;
+  /**
+   * HASH 类型的事件中，防抖期间被删除的 Entry 的 key
+   */
+  deletedHashKeys?: Set<string>;
+  /**
+   * LIST 类型的事件中，防抖期间发生变化的分段的下标
+   */
+  dirtySegments?: Set<number>;
+  /**
+   * LIST 类型的分段大小
+   */
+  segmentSize?: number;
+  /**
+   * 配置了版本号时，与数据一起持久化
+   */
+  version?: number;
+  /**
+   * 事件的防抖配置，防抖配置相同的事件由同一个定时器持久化
+   */
+  debounceKey: string;
+  storePersistContext: CnStorePersistContext;
+  storageAccessor: CnStorageAccessor;
 };
 
+/**
+ * 插件实例的运行时状态，每次调用 createCnPersistPiniaPlugin 创建一个
+ * 同一个页面中的多个 Pinia 实例（例如 SSR 时每个请求一个，或微前端的多个子应用）各自使用自己的配置与缓冲区，互不影响
+ */
+export interface CnPersistEngine {
+  globalDebounce: number;
+  globalMaxWait?: number;
+  /**
+   * 防抖持久化器，key 为防抖配置，见：{@link CnPersistEvent.debounceKey}
+   */
+  debouncedConsumPersistEvents: Map<string, () => void>;
+  /**
+   * 持久化事件缓冲区，key 为持久化 key，防抖期间同一个 state 的事件会被合并
+   */
+  persistBuffer: Record<string, CnPersistEvent>;
+  /**
+   * 正在进行的异步持久化操作，key 为持久化 key，值在操作完成（无论成功或失败）后 resolve
+   */
+  persistingEvents: Map<string, Promise<void>>;
+  /**
+   * 刚从 storage 恢复到 state 的值，key 为持久化 key，值的 key 为 hashKey，恢复整个 state 时为 undefined
+   * 恢复时删除的 Entry 的值为 undefined。watch 的回调中的值与恢复的值相同时，说明变化来自恢复，不需要再次持久化，
+   * 同一个 tick 中对 state 的其它修改仍然会被持久化，在 nextTick 中清除
+   */
+  restoredValues: Map<string, Map<string | undefined, unknown>>;
+  /**
+   * 正在从 storage 恢复数据的 Map 类型的 state 的持久化 key，恢复时调用 Map 的 set 不需要再次持久化
+   */
+  restoringMapPersistKeys: Set<string>;
+  /**
+   * 当前插件实例已创建的 store 的所有 state，key 为持久化 key，多个 pinia 实例可能使用相同的持久化 key
+   * store 销毁或应用卸载时移除，见：registerStatePersistContext
+   */
+  registeredStates: Map<string, Set<CnStatePersistContext<unknown>>>;
+  quotaManager?: CnQuotaManager;
+}
+
 declare module 'pinia' {
   // eslint-disable-next-line @typescript-eslint/no-unused-vars
   export interface DefineStoreOptionsBase<S extends StateTree, Store> {
@@ -204,7 +711,13 @@ declare module 'pinia' {
      *
      * Warning: this is for advances usecases, make sure you know what you're doing.
      */
-    $hydrate: (opts?: { runHooks?: boolean }) => void;
+    $hydrate: (opts?: { runHooks?: boolean }) => Promise<void>;
+
+    /**
+     * store 初始化时从 storage 恢复数据完成后 resolve
+     * 使用异步 storage 时，可以 await 这个 Promise 以确保 state 已经恢复后再渲染
+     */
+    $hydrated: Promise<void>;
 
     /**
      * Persists store into configured storage
@@ -212,5 +725,19 @@ declare module 'pinia' {
      * Warning: this is for advances usecases, make sure you know what you're doing.
      */
     $persist: () => void;
+
+    /**
+     * 立即持久化当前 store 还在等待防抖的修改，返回的 Promise 在写入完成后 resolve
+     * store 销毁（$dispose）时会自动调用
+     */
+    $flush: () => Promise<void>;
+
+    /**
+     * 删除当前 store 的持久化数据，包括 HASH 的 key 集合与所有 Entry，并丢弃还在等待防抖的修改，不修改 state 的值
+     * 返回的 Promise 在删除完成后 resolve
+     *
+     * @param stateKeys 只删除这些 state 的持久化数据，不传时删除所有持久化的 state 的数据
+     */
+    $clearPersisted: (stateKeys?: Array<string>) => Promise<void>;
   }
 }
@@ -1,18 +1,28 @@
+import { App } from 'vue';
 import { StateTree } from 'pinia';
 import {
   CnDeserializePostHandler,
   CnKeyFilter,
+  CnPersistEngine,
   CnPersistFactoryOptions,
   CnPersistOptions,
   CnPersistStates,
+  CnSerializeContext,
   CnStateDeserializer,
   CnStatePersistContext,
   CnStatePersistOptions,
   CnStateSerializer,
   CnStorePersistContext,
+  AsyncStorageLike,
+  MaybePromise,
   StateKeyType,
   StorageLike,
 } from './types';
+import { produceDecryptDeserialize, produceEncryptSerialize } from './encryption';
+import { CnCompressionOptions, compress, decompress } from './compression';
+import { stamp } from './ttl';
+import { RICH_STATE_DESERIALIZER, RICH_STATE_SERIALIZER } from './serializer';
+import { produceStorageAccessor } from './storage';
 
 /**
  * 深度遍历对象，并对每个对象调用回调函数
@@ -60,16 +70,71 @@ export const capitalize = (str: string) => {
   return str[0].toUpperCase() + str.slice(1);
 };
 
+export const isPromise = <T>(v: MaybePromise<T>): v is Promise<T> => {
+  return typeof (v as Promise<T> | null)?.then === 'function';
+};
+
+/**
+ * 同步值直接同步调用 fn，Promise 则在 resolve 后调用 fn
+ * 这样同步 storage 的恢复与持久化仍然是同步完成的，只有异步 storage 才会引入异步
+ */
+export const maybeThen = <T, R>(value: MaybePromise<T>, fn: (v: T) => MaybePromise<R>): MaybePromise<R> => {
+  return isPromise(value) ? value.then(fn) : fn(value);
+};
+
+/**
+ * 只要有一个值是 Promise，就返回 Promise.all，否则同步返回原数组
+ */
+export const maybeAll = <T>(values: Array<MaybePromise<T>>): MaybePromise<Array<T>> => {
+  return values.some(isPromise) ? Promise.all(values) : (values as Array<T>);
+};
+
+/**
+ * 应用卸载时执行的回调，Vue 3.5 之前的 App 没有 onUnmount，因此包装 app.unmount
+ */
+const appUnmountCallbacks: WeakMap<App, Array<() => void>> = new WeakMap();
+
+/**
+ * 注册应用卸载时的回调，app 不存在（pinia 没有安装到应用中）时忽略
+ */
+export const onAppUnmount = (app: App | undefined, callback: () => void) => {
+  if (!app) {
+    return;
+  }
+  let callbacks = appUnmountCallbacks.get(app);
+  if (!callbacks) {
+    const callbacks_: Array<() => void> = [];
+    const unmount = app.unmount;
+    app.unmount = () => {
+      unmount.call(app);
+      callbacks_.splice(0).forEach(callback_ => callback_());
+    };
+    appUnmountCallbacks.set(app, callbacks_);
+    callbacks = callbacks_;
+  }
+  callbacks.push(callback);
+};
+
 // 防抖
-export const debounce = (fn: () => void, timeout: number) => {
-  let timer: NodeJS.Timeout;
+/**
+ * 尾部防抖，配置了 maxWait 时，从第一次调用开始最多等待 maxWait 毫秒就会执行，即使一直在调用
+ */
+export const debounce = (fn: () => void, timeout: number, maxWait?: number) => {
+  let timer: NodeJS.Timeout | undefined;
+  // 本轮防抖中第一次调用的时间
+  let firstCallTime: number | undefined;
   return () => {
     if (timer) {
       clearTimeout(timer);
     }
+    const now = Date.now();
+    firstCallTime ??= now;
+    const wait = maxWait == null ? timeout : Math.min(timeout, Math.max(firstCallTime + maxWait - now, 0));
     timer = setTimeout(() => {
+      timer = undefined;
+      firstCallTime = undefined;
       fn();
-    }, timeout);
+    }, wait);
   };
 };
 
@@ -81,6 +146,36 @@ export const getPersistHashKey = (persistKey: string, hashKey: string): string =
   return `${persistKey}-${hashKey}`;
 };
 
+/**
+ * 持久化数据的版本号的 key，不使用 '-' 连接，避免与 HASH Entry 的 key 冲突
+ */
+export const getPersistVersionKey = (persistKey: string): string => {
+  return `${persistKey}@version`;
+};
+
+/**
+ * LIST 策略的分段的 key，不使用 '-' 连接，避免与 HASH Entry 的 key 冲突
+ */
+export const getPersistSegmentKey = (persistKey: string, segmentIndex: number): string => {
+  return `${persistKey}#${segmentIndex}`;
+};
+
+/**
+ * 获取存储 HASH 策略的 key 集合（hash index）的 storage
+ */
+export const getHashIndexStorage = (storage: AsyncStorageLike): AsyncStorageLike => {
+  return storage.hashIndex ?? storage;
+};
+
+let textEncoder: TextEncoder | undefined;
+
+/**
+ * 字符串按照 UTF-8 编码的字节数
+ */
+export const getByteSize = (value: string): number => {
+  return (textEncoder ??= new TextEncoder()).encode(value).length;
+};
+
 export const isObject = (v: unknown) => {
   return typeof v === 'object' && v !== null;
 };
@@ -97,14 +192,35 @@ export const getStateConverter = (cnPersist: CnPersistOptions<StateTree>, stateK
   return stateConverters_[stateKey];
 };
 
+/**
+ * Map 与 Set 无法直接 JSON 序列化，分别序列化为 Entry 数组与元素数组
+ * 恢复时如果 state 的当前值为 Map 或 Set，会将数组恢复为 Map 或 Set
+ * 0、false 与 '' 会正常序列化，null 与 undefined 序列化为 ''，恢复时视为没有值，LIST 策略的元素恢复为 null
+ * 需要保留 Date、BigInt 等类型时，使用 rich 序列化器，见：{@link CnStatePersistOptions.serializer}
+ */
 export const DEFAULT_STATE_SERIALIZER: CnStateSerializer = (newValue?: unknown) =>
-  newValue ? JSON.stringify(newValue) : '';
+  newValue == null
+    ? ''
+    : JSON.stringify(newValue instanceof Map || newValue instanceof Set ? Array.from(newValue) : newValue);
 
 export const DEFAULT_STATE_DESERIALIZER: CnStateDeserializer = (persistedValue: string | null) =>
   persistedValue ? JSON.parse(persistedValue) : null;
 
+export const DEFAULT_SEGMENT_SIZE = 100;
+
 export const DEFAULT_DESERIALIZE_POST_HANDLER: CnDeserializePostHandler = (newValue?: unknown) => newValue;
 
+const STORE_ONLY_OPTIONS: Set<PropertyKey> = new Set([
+  'key',
+  'debounce',
+  'maxWait',
+  'onBeforePersist',
+  'onPersisted',
+  'onPersistError',
+  'onRestored',
+  'onRestoreError',
+]);
+
 /**
  * 将 store 独立的选项与全局选项合并
  * 全局选项作为缺省值，如果 store 独立的选项存在则使用 store 的，否则使用全局的
@@ -123,7 +239,9 @@ export const mixOptions = (
   options = isObject(options) ? options : Object.create(null);
   return new Proxy(options as object, {
     get(target, key, receiver) {
-      if (key === 'key') {
+      // 防抖配置的全局配置为 globalDebounce、globalMaxWait，且 0 是有效值，不能回退到工厂配置
+      // 全局的钩子与 store 的钩子都会调用，因此也不回退到工厂配置
+      if (STORE_ONLY_OPTIONS.has(key)) {
         return Reflect.get(target, key, receiver);
       }
       return Reflect.get(target, key, receiver) || Reflect.get(factoryOptions, key, receiver);
@@ -144,6 +262,7 @@ export const produceStorePersistContext = (
   storeId: string,
   storeState: StateTree,
   mixedPersistOptions: CnPersistOptions<StateTree>,
+  engine: CnPersistEngine,
 ): CnStorePersistContext | null => {
   try {
     const {
@@ -152,17 +271,36 @@ export const produceStorePersistContext = (
       // 有 cnPersist，但没有 states，视为所有 state 都按照 STRING 策略持久化
       states = getAllStatesWithEmptyOptions(storeState),
       hashActionPrefix = 'hsetAndPersist',
+      hdelActionPrefix = 'hdelAndPersist',
+      lpushActionPrefix = 'lpushAndPersist',
+      lsetActionPrefix = 'lsetAndPersist',
+      crossTab = false,
       beforeRestore,
       afterRestore,
     } = mixedPersistOptions;
     return {
       key: (factoryOptions.key ?? (k => k))(typeof key == 'string' ? key : key(storeId)),
+      storeId,
       debug,
       states,
       storeState,
       hashActionPrefix,
+      hdelActionPrefix,
+      lpushActionPrefix,
+      lsetActionPrefix,
+      crossTab: crossTab === true ? 'storage' : crossTab,
       beforeRestore,
       afterRestore,
+      engine,
+      storageAccessor: produceStorageAccessor(
+        debug,
+        engine.quotaManager?.quotaExceededHandler,
+        engine.quotaManager?.maxRetries,
+      ),
+      hooks: [factoryOptions, mixedPersistOptions],
+      hydrated: Promise.resolve(),
+      hydrate: () => Promise.resolve(),
+      resetState: () => {},
     };
   } catch (e) {
     if (mixedPersistOptions.debug) {
@@ -191,22 +329,103 @@ const getMixedExcludes = (
   return { finalIncludes: includes, finalExcludes: excludes };
 };
 
-const getSerialize = (statePersistOptions: CnStatePersistOptions<unknown>) => {
-  const { serialize = DEFAULT_STATE_SERIALIZER, includes, excludes } = statePersistOptions;
+/**
+ * 调用序列化器，序列化上下文同时作为 this 与第二个参数传入，见：{@link CnStateSerializer}
+ */
+export const callSerialize = (
+  serialize: CnStateSerializer,
+  newValue: unknown,
+  context: CnSerializeContext,
+): MaybePromise<string | null> => {
+  return serialize.call(context, newValue, context as Parameters<CnStateSerializer>[1]);
+};
+
+const getSerialize = (
+  statePersistOptions: CnStatePersistOptions<unknown>,
+  defaultSerialize: CnStateSerializer,
+): CnStateSerializer => {
+  const { serialize = defaultSerialize, includes, excludes } = statePersistOptions;
   const { finalExcludes, finalIncludes } = getMixedExcludes(includes, excludes);
   if (!finalExcludes && !finalIncludes) {
     return serialize;
   }
   if (finalExcludes) {
-    return (newValue: unknown) => {
-      return serialize(truncate(newValue, finalExcludes));
+    return function (newValue, context) {
+      return serialize.call(this, truncate(newValue, finalExcludes), context);
     };
   }
-  return (newValue: unknown) => {
-    return serialize(retain(newValue, finalIncludes!));
+  return function (newValue, context) {
+    return serialize.call(this, retain(newValue, finalIncludes!), context);
+  };
+};
+
+/**
+ * 序列化器返回的字符串，key 为序列化上下文，持久化时通过 {@link getSerializedString} 取出，
+ * 记录为下一次序列化时的 oldPersistedValue，见：{@link CnStatePersistContext.persistedStrings}
+ * 只在持久化时取出，因此导出快照等不写入 storage 的序列化不会影响 oldPersistedValue
+ */
+const serializedStrings: WeakMap<CnSerializeContext, string> = new WeakMap();
+
+export const getSerializedString = (context: CnSerializeContext): string | undefined => {
+  return serializedStrings.get(context);
+};
+
+/**
+ * 包装序列化器，记录其返回的字符串，在压缩、加密与时间戳之前包装，因此记录的是序列化器本身的结果
+ */
+const produceRecordSerialize = (serialize: CnStateSerializer): CnStateSerializer => {
+  return function (newValue, context) {
+    return maybeThen(serialize.call(this, newValue, context), persistValue => {
+      if (persistValue != null) {
+        serializedStrings.set(context, persistValue);
+      }
+      return persistValue;
+    });
+  };
+};
+
+/**
+ * 包装序列化器，对序列化后超过阈值的值进行压缩
+ */
+const produceCompressSerialize = (
+  serialize: CnStateSerializer,
+  compression: CnCompressionOptions,
+): CnStateSerializer => {
+  return function (newValue, context) {
+    return maybeThen(serialize.call(this, newValue, context), persistValue => {
+      return persistValue == null ? null : compress(persistValue, compression);
+    });
   };
 };
 
+/**
+ * 包装反序列化器，先解压再反序列化，解压失败时返回 null，即不恢复
+ */
+const produceDecompressDeserialize = (deserialize: CnStateDeserializer): CnStateDeserializer => {
+  return persistedValue => {
+    const decompressed = decompress(persistedValue);
+    return decompressed == null ? null : deserialize(decompressed);
+  };
+};
+
+/**
+ * 包装序列化器，为序列化后的值加上写入时间戳
+ */
+const produceStampSerialize = (serialize: CnStateSerializer): CnStateSerializer => {
+  return function (newValue, context) {
+    return maybeThen(serialize.call(this, newValue, context), persistValue => {
+      return persistValue == null ? null : stamp(persistValue);
+    });
+  };
+};
+
+/**
+ * 缺省的 storage 为 localStorage，服务端渲染等没有 localStorage 的环境中返回 undefined
+ */
+const getDefaultStorage = (): StorageLike | undefined => {
+  return typeof localStorage === 'undefined' ? undefined : localStorage;
+};
+
 export const produceStatePersistContext = (
   stateKey: string,
   persistKey: string,
@@ -215,28 +434,79 @@ export const produceStatePersistContext = (
   storePersistContext: CnStorePersistContext,
 ): CnStatePersistContext<unknown> | null => {
   try {
-    const { hashActionPrefix } = storePersistContext;
+    const { hashActionPrefix, hdelActionPrefix, lpushActionPrefix, lsetActionPrefix } = storePersistContext;
     const {
       policy = 'STRING',
       hashActionName = `${hashActionPrefix}${capitalize(stateKey)}`,
-      deserialize = DEFAULT_STATE_DESERIALIZER,
+      hdelActionName = `${hdelActionPrefix}${capitalize(stateKey)}`,
+      lpushActionName = `${lpushActionPrefix}${capitalize(stateKey)}`,
+      lsetActionName = `${lsetActionPrefix}${capitalize(stateKey)}`,
+      segmentSize = DEFAULT_SEGMENT_SIZE,
       deserializePostHandler = DEFAULT_DESERIALIZE_POST_HANDLER,
+      ttl,
+      onExpire,
+      priority = 0,
+      autoHash = false,
     } = statePersistOptions;
-    const storage = statePersistOptions.storage ?? mixedPersistOptions.storage;
+    const storage = statePersistOptions.storage ?? mixedPersistOptions.storage ?? getDefaultStorage();
+    // 服务端渲染时没有 localStorage，没有配置 storage 的 state 不持久化
+    if (!storage) {
+      return null;
+    }
+    // state 配置了版本号时，使用 state 自己的版本号与迁移函数，否则使用 store 的
+    const { version, migrations } = statePersistOptions.version != null ? statePersistOptions : mixedPersistOptions;
+    const encryption = statePersistOptions.encryption ?? mixedPersistOptions.encryption;
+    const compression = statePersistOptions.compression ?? mixedPersistOptions.compression;
+    // 内置序列化器，state 配置了自定义的 serialize 或 deserialize 时，以自定义的为准
+    const serializer = statePersistOptions.serializer ?? mixedPersistOptions.serializer;
+    const [defaultSerialize, defaultDeserialize] =
+      serializer == 'rich'
+        ? [RICH_STATE_SERIALIZER, RICH_STATE_DESERIALIZER]
+        : [DEFAULT_STATE_SERIALIZER, DEFAULT_STATE_DESERIALIZER];
+    let serialize = produceRecordSerialize(getSerialize(statePersistOptions, defaultSerialize));
+    let deserialize_ = statePersistOptions.deserialize ?? defaultDeserialize;
+    // 先压缩再加密，加密后的数据几乎无法压缩
+    if (compression) {
+      serialize = produceCompressSerialize(serialize, compression === true ? {} : compression);
+      deserialize_ = produceDecompressDeserialize(deserialize_);
+    }
+    if (encryption) {
+      serialize = produceEncryptSerialize(serialize, encryption);
+      deserialize_ = produceDecryptDeserialize(deserialize_, encryption, storePersistContext.debug);
+    }
+    // 时间戳在最外层，恢复时不需要解密即可判断是否过期，去掉时间戳由恢复流程负责
+    if (ttl != null) {
+      serialize = produceStampSerialize(serialize);
+    }
     /**
      * 这里必须对 storeState 调用 toRaw()，因为 storeState 是代理，其 setter 被动了手脚，
      * 在 setup 配置 pinia 的情况下，storeState[stateKey] 拿到的不是 Ref，而是 Ref.value 的值
      */
     return {
-      storage: storage ?? localStorage,
+      storage,
       hashActionName,
+      hdelActionName,
+      lpushActionName,
+      lsetActionName,
       stateKey,
       persistKey,
+      persistedHashValues: new Map(),
+      persistedStrings: new Map(),
       statePersistOptions: {
         policy,
-        serialize: getSerialize(statePersistOptions),
-        deserialize,
+        serialize,
+        deserialize: deserialize_,
         deserializePostHandler,
+        version,
+        migrations,
+        ttl,
+        onExpire,
+        priority,
+        segmentSize,
+        autoHash,
+        // 没有配置时使用全局配置，见：setGlobalDebounce
+        debounce: statePersistOptions.debounce ?? mixedPersistOptions.debounce,
+        maxWait: statePersistOptions.maxWait ?? mixedPersistOptions.maxWait,
       },
       storePersistContext,
     };
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+
+import { compress, decompress } from '../src/compression';
+
+const LARGE_VALUE = JSON.stringify(
+  Array.from({ length: 200 }, (_, index) => ({ id: index, name: `节点-${index}`, emoji: '😀', children: [] })),
+);
+
+describe('compression', () => {
+  it('compresses values above the threshold and restores them', () => {
+    const compressed = compress(LARGE_VALUE, { threshold: 100 });
+
+    expect(compressed.startsWith('cn-lz:')).toBe(true);
+    expect(compressed.length).toBeLessThan(LARGE_VALUE.length);
+    expect(decompress(compressed)).toEqual(LARGE_VALUE);
+  });
+
+  it('produces UTF-16 safe strings', () => {
+    const compressed = compress(LARGE_VALUE, { threshold: 100 });
+
+    for (let i = 0; i < compressed.length; i++) {
+      const charCode = compressed.charCodeAt(i);
+      expect(charCode >= 32 && (charCode < 0xd800 || charCode > 0xdfff)).toBe(true);
+    }
+  });
+
+  it('round-trips arbitrary strings', () => {
+    const values = ['a', 'ab', 'aaaaaaaaaaaaaaaaaaaa', '\u0000ÿĀ￿', LARGE_VALUE.slice(0, 777)];
+    values.forEach(value => {
+      expect(decompress(compress(value, { threshold: 0 }))).toEqual(value);
+    });
+  });
+
+  it('keeps values below the threshold uncompressed', () => {
+    expect(compress(LARGE_VALUE, { threshold: LARGE_VALUE.length })).toEqual(LARGE_VALUE);
+    expect(compress(LARGE_VALUE, {})).not.toEqual(LARGE_VALUE);
+  });
+
+  it('passes uncompressed values through', () => {
+    expect(decompress(LARGE_VALUE)).toEqual(LARGE_VALUE);
+  });
+});
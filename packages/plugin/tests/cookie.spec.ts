@@ -0,0 +1,107 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { createApp, nextTick } from 'vue';
+import { createPinia, defineStore, setActivePinia } from 'pinia';
+
+import { createCnPersistPiniaPlugin } from '../src/plugin';
+import { createCookieJar, createCookieStorage } from '../src/cookie';
+import { getPersistKey } from '../src/util';
+
+const STORE_ID = 'mock-store';
+const STATE_KEY = 'lorem';
+const PERSIST_KEY = getPersistKey(STORE_ID, STATE_KEY);
+
+describe('createCookieStorage', () => {
+  it('writes cookies with the configured attributes', () => {
+    //* arrange
+    const jar = createCookieJar();
+    const storage = createCookieStorage({ jar, maxAge: 60, domain: 'example.com', sameSite: 'lax', secure: true });
+
+    //* act
+    storage.setItem(PERSIST_KEY, '"zh-CN"');
+
+    //* assert
+    expect(storage.getItem(PERSIST_KEY)).toBe('"zh-CN"');
+    expect(jar.getSetCookies()).toEqual([
+      `${PERSIST_KEY}=%22zh-CN%22; Max-Age=60; Path=/; Domain=example.com; SameSite=Lax; Secure`,
+    ]);
+  });
+
+  it('splits values over the size limit into numbered chunks', () => {
+    //* arrange
+    const jar = createCookieJar();
+    const storage = createCookieStorage({ jar, maxSize: 100 });
+    const value = '测试'.repeat(50);
+
+    //* act
+    storage.setItem(PERSIST_KEY, value);
+
+    //* assert
+    expect(jar.get(PERSIST_KEY)).toBeUndefined();
+    expect(jar.getSetCookies().length).toBeGreaterThan(1);
+    jar.getSetCookies().forEach(setCookie => expect(setCookie.split(';')[0].length).toBeLessThanOrEqual(100));
+    expect(storage.getItem(PERSIST_KEY)).toBe(value);
+  });
+
+  it('removes stale chunks when the value shrinks or is removed', () => {
+    //* arrange
+    const jar = createCookieJar();
+    const storage = createCookieStorage({ jar, maxSize: 100 });
+    storage.setItem(PERSIST_KEY, 'a'.repeat(300));
+
+    //* act
+    storage.setItem(PERSIST_KEY, 'b');
+    const shrunk = storage.getItem(PERSIST_KEY);
+    storage.removeItem(PERSIST_KEY);
+
+    //* assert
+    expect(shrunk).toBe('b');
+    expect(storage.getItem(PERSIST_KEY)).toBeNull();
+    expect(jar.getSetCookies()).toEqual([
+      `${PERSIST_KEY}.0=; Max-Age=0; Path=/`,
+      `${PERSIST_KEY}.1=; Max-Age=0; Path=/`,
+      `${PERSIST_KEY}.2=; Max-Age=0; Path=/`,
+      `${PERSIST_KEY}.3=; Max-Age=0; Path=/`,
+      `${PERSIST_KEY}=; Max-Age=0; Path=/`,
+    ]);
+  });
+
+  it('reads chunked cookies from the request header', () => {
+    //* arrange
+    const jar = createCookieJar(`other=1; ${PERSIST_KEY}.0=%7B%22name%22; ${PERSIST_KEY}.1=%3A%22ipsum%22%7D`);
+
+    //* act
+    const value = createCookieStorage({ jar }).getItem(PERSIST_KEY);
+
+    //* assert
+    expect(value).toBe('{"name":"ipsum"}');
+  });
+});
+
+describe('w/ cookie storage', () => {
+  afterEach(() => {
+    document.cookie = `${PERSIST_KEY}=; Max-Age=0; Path=/`;
+  });
+
+  it('persists and restores state through document.cookie', async () => {
+    //* arrange
+    const pinia = createPinia();
+    pinia.use(createCnPersistPiniaPlugin({ globalDebounce: 0 }));
+    createApp({}).use(pinia);
+    setActivePinia(pinia);
+    const useStore = defineStore(STORE_ID, {
+      state: () => ({ [STATE_KEY]: 'en' }),
+      cnPersist: { states: { [STATE_KEY]: { storage: createCookieStorage({ maxAge: 60 }) } } },
+    });
+    const store = useStore();
+
+    //* act
+    store[STATE_KEY] = 'zh-CN';
+    await nextTick();
+    store[STATE_KEY] = 'en';
+    await store.$hydrate();
+
+    //* assert
+    expect(document.cookie).toContain(`${PERSIST_KEY}=%22zh-CN%22`);
+    expect(store[STATE_KEY]).toBe('zh-CN');
+  });
+});
@@ -0,0 +1,184 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { createApp, nextTick } from 'vue';
+import { createPinia, defineStore, setActivePinia } from 'pinia';
+import { setupDevtoolsPlugin } from '@vue/devtools-api';
+
+import { createCnPersistPiniaPlugin } from '../src/plugin';
+import { getPersistKey } from '../src/util';
+import { CnPersistFactoryOptions } from '../src/types';
+
+vi.mock('@vue/devtools-api', () => ({ setupDevtoolsPlugin: vi.fn() }));
+
+const STORE_ID = 'mock-store';
+const STATE_KEY = 'lorem';
+const STATE_VALUE = { name: 'ipsum' };
+const PERSIST_KEY = getPersistKey(STORE_ID, STATE_KEY);
+
+type Listener = (payload: Record<string, unknown>) => unknown;
+
+/**
+ * 模拟 Devtools 打开后传给插件 setup 的 api，记录注册的监听器与添加的时间线事件
+ */
+const produceFakeApi = () => {
+  const listeners: Record<string, Listener> = {};
+  return {
+    listeners,
+    addTimelineLayer: vi.fn(),
+    addInspector: vi.fn(),
+    addTimelineEvent: vi.fn(),
+    sendInspectorTree: vi.fn(),
+    sendInspectorState: vi.fn(),
+    now: () => 0,
+    on: {
+      getInspectorTree: (listener: Listener) => (listeners.getInspectorTree = listener),
+      getInspectorState: (listener: Listener) => (listeners.getInspectorState = listener),
+    },
+  };
+};
+
+let state: Record<string, string> = {};
+
+beforeEach(() => {
+  state = {};
+  Object.defineProperty(window, 'localStorage', {
+    value: {
+      getItem: vi.fn(key => state[key] ?? null),
+      setItem: vi.fn((key, value) => {
+        state[key] = value;
+      }),
+      removeItem: vi.fn(key => delete state[key]),
+    },
+  });
+  vi.mocked(setupDevtoolsPlugin).mockClear();
+});
+
+describe('devtools', () => {
+  const usePlugin = (factoryOptions: Partial<CnPersistFactoryOptions> = {}) => {
+    const app = createApp({});
+    const pinia = createPinia();
+    pinia.use(createCnPersistPiniaPlugin({ globalDebounce: 0, ...factoryOptions }));
+    app.use(pinia);
+    setActivePinia(pinia);
+    return app;
+  };
+
+  const useStore = defineStore(STORE_ID, {
+    state: () => ({ [STATE_KEY]: null as unknown }),
+    cnPersist: true,
+  });
+
+  /**
+   * 创建 store 并执行 Devtools 插件的 setup
+   */
+  const setupDevtools = () => {
+    const app = usePlugin();
+    const store = useStore();
+    const api = produceFakeApi();
+    const [, setup] = vi.mocked(setupDevtoolsPlugin).mock.calls[0];
+    setup(api as unknown as Parameters<typeof setup>[0]);
+    return { app, store, api };
+  };
+
+  it('registers one devtools plugin per app', () => {
+    //* arrange
+    const app = usePlugin();
+
+    //* act
+    useStore();
+    defineStore('other-store', { state: () => ({ ipsum: 0 }), cnPersist: true })();
+
+    //* assert
+    expect(setupDevtoolsPlugin).toHaveBeenCalledOnce();
+    const [descriptor] = vi.mocked(setupDevtoolsPlugin).mock.calls[0];
+    expect(descriptor.id).toBe('cn-persist-pinia-plugin');
+    expect(descriptor.app).toBe(app);
+  });
+
+  it('does not register when disabled', () => {
+    //* arrange
+    usePlugin({ devtools: false });
+
+    //* act
+    useStore();
+
+    //* assert
+    expect(setupDevtoolsPlugin).not.toHaveBeenCalled();
+  });
+
+  it('does not register in production unless enabled explicitly', () => {
+    //* arrange
+    vi.stubEnv('NODE_ENV', 'production');
+
+    //* act
+    usePlugin();
+    useStore();
+    const registered = vi.mocked(setupDevtoolsPlugin).mock.calls.length;
+    usePlugin({ devtools: true });
+    useStore();
+    vi.unstubAllEnvs();
+
+    //* assert
+    expect(registered).toBe(0);
+    expect(setupDevtoolsPlugin).toHaveBeenCalledOnce();
+  });
+
+  it('lists persisted stores and states in the inspector', async () => {
+    //* arrange
+    const { app, store, api } = setupDevtools();
+    store[STATE_KEY] = STATE_VALUE;
+    await nextTick();
+
+    //* act
+    const treePayload: Record<string, unknown> = { app, inspectorId: 'cn-persist-pinia-plugin', filter: '' };
+    api.listeners.getInspectorTree(treePayload);
+    const statePayload: Record<string, unknown> = { app, inspectorId: 'cn-persist-pinia-plugin', nodeId: STORE_ID };
+    await api.listeners.getInspectorState(statePayload);
+
+    //* assert
+    expect(treePayload.rootNodes).toEqual([
+      expect.objectContaining({
+        id: STORE_ID,
+        children: [expect.objectContaining({ id: `${STORE_ID}/${STATE_KEY}`, label: STATE_KEY })],
+      }),
+    ]);
+    expect(statePayload.state).toEqual({
+      [STATE_KEY]: expect.arrayContaining([
+        { key: 'persistKey', value: PERSIST_KEY },
+        { key: 'pending', value: false },
+        { key: 'size', value: JSON.stringify(STATE_VALUE).length },
+      ]),
+    });
+  });
+
+  it('adds timeline events for persistence', async () => {
+    //* arrange
+    const { store, api } = setupDevtools();
+
+    //* act
+    store[STATE_KEY] = STATE_VALUE;
+    await nextTick();
+
+    //* assert
+    expect(api.addTimelineEvent).toHaveBeenCalledWith({
+      layerId: 'cn-persist-pinia-plugin',
+      event: expect.objectContaining({ title: 'STRING', subtitle: PERSIST_KEY, logType: 'default' }),
+    });
+  });
+
+  it('clears persisted data through the node action', async () => {
+    //* arrange
+    const { store, api } = setupDevtools();
+    store[STATE_KEY] = STATE_VALUE;
+    await nextTick();
+    const { nodeActions } = api.addInspector.mock.calls[0][0];
+    const clearAction = nodeActions.find(({ icon }: { icon: string }) => icon === 'delete');
+
+    //* act
+    await clearAction.action(`${STORE_ID}/${STATE_KEY}`);
+
+    //* assert
+    expect(state[PERSIST_KEY]).toBeUndefined();
+    expect(store[STATE_KEY]).toEqual(STATE_VALUE);
+    expect(api.sendInspectorTree).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,184 @@
+import { describe, expect, it } from 'vitest';
+import { createApp, nextTick, ref } from 'vue';
+import { createPinia, defineStore, setActivePinia } from 'pinia';
+
+import { createCnPersistPiniaPlugin } from '../src/plugin';
+import { collectCnPersistGarbage } from '../src/gc';
+import { getPersistHashKey, getPersistKey, getPersistSegmentKey, getPersistVersionKey } from '../src/util';
+import { getHashEntryKey } from '../src/storage';
+import { AsyncStorageLike } from '../src/types';
+
+const STORE_ID = 'mock-store';
+const STATE_KEY = 'lorem';
+const HASH_STATE_KEY = 'nodes';
+const LIST_STATE_KEY = 'logs';
+const PERSIST_KEY = getPersistKey(STORE_ID, STATE_KEY);
+const HASH_PERSIST_KEY = getPersistKey(STORE_ID, HASH_STATE_KEY);
+const LIST_PERSIST_KEY = getPersistKey(STORE_ID, LIST_STATE_KEY);
+
+/**
+ * 可以枚举 key 的 storage，HASH 策略扫描 storage
+ */
+const createEnumerableStorage = () => {
+  const state: Record<string, string> = {};
+  const storage: AsyncStorageLike & { state: Record<string, string> } = {
+    state,
+    getItem: key => state[key] ?? null,
+    setItem: (key, value) => {
+      state[key] = value;
+    },
+    removeItem: key => {
+      delete state[key];
+    },
+    keys: () => Object.keys(state),
+    hashScan: true,
+  };
+  return storage;
+};
+
+/**
+ * 创建 store 并等待初始化的持久化完成，之后再写入模拟的遗留数据
+ */
+const setupStore = async (storage: AsyncStorageLike) => {
+  const pinia = createPinia();
+  pinia.use(createCnPersistPiniaPlugin({ globalDebounce: 0 }));
+  createApp({}).use(pinia);
+  setActivePinia(pinia);
+  const useStore = defineStore(STORE_ID, {
+    state: () => ({
+      [STATE_KEY]: 'ipsum',
+      [HASH_STATE_KEY]: {} as Record<string, number>,
+      [LIST_STATE_KEY]: [] as Array<string>,
+    }),
+    actions: {
+      hsetAndPersistNodes(key: string, value: number) {
+        this[HASH_STATE_KEY][key] = value;
+      },
+      lpushAndPersistLogs(...items: Array<string>) {
+        this[LIST_STATE_KEY].push(...items);
+      },
+    },
+    cnPersist: {
+      storage,
+      version: 1,
+      states: {
+        [STATE_KEY]: {},
+        [HASH_STATE_KEY]: { policy: 'HASH' },
+        [LIST_STATE_KEY]: { policy: 'LIST', segmentSize: 2 },
+      },
+    },
+  });
+  const store = useStore();
+  store.hsetAndPersistNodes('a', 1);
+  store.lpushAndPersistLogs('x', 'y', 'z');
+  await nextTick();
+  await store.$hydrated;
+  return store;
+};
+
+/**
+ * 包括开启扫描之前遗留的 HASH 的 key 集合与使用 '-' 连接的 Entry
+ */
+const getOrphanedKeys = (storage: AsyncStorageLike) => [
+  getPersistKey(STORE_ID, 'renamed'),
+  getPersistKey('dropped-store', STATE_KEY),
+  getHashEntryKey(storage, HASH_PERSIST_KEY, 'stale'),
+  getPersistHashKey(HASH_PERSIST_KEY, 'a'),
+  getPersistSegmentKey(LIST_PERSIST_KEY, 5),
+  getPersistSegmentKey(PERSIST_KEY, 0),
+  HASH_PERSIST_KEY,
+];
+
+const seedOrphans = (storage: AsyncStorageLike) => {
+  getOrphanedKeys(storage).forEach(key => storage.setItem(key, '{}'));
+  storage.setItem('unrelated', '{}');
+};
+
+describe('garbage collection', () => {
+  it('reports orphaned keys without removing them in dry run', async () => {
+    //* arrange
+    const storage = createEnumerableStorage();
+    await setupStore(storage);
+    seedOrphans(storage);
+
+    //* act
+    const { orphans, removed } = await collectCnPersistGarbage({ storages: [] });
+
+    //* assert
+    const orphanedKeys = orphans.filter(orphan => orphan.storage === storage).map(({ key }) => key);
+    expect(orphanedKeys.sort()).toEqual(getOrphanedKeys(storage).sort());
+    expect(removed).toBe(false);
+    expect(Object.keys(storage.state)).toEqual(expect.arrayContaining(getOrphanedKeys(storage)));
+  });
+
+  it('removes orphaned keys and keeps persisted data', async () => {
+    //* arrange
+    const storage = createEnumerableStorage();
+    await setupStore(storage);
+    seedOrphans(storage);
+
+    //* act
+    const { removed } = await collectCnPersistGarbage({ storages: [], dryRun: false });
+
+    //* assert
+    expect(removed).toBe(true);
+    expect(Object.keys(storage.state).sort()).toEqual(
+      [
+        PERSIST_KEY,
+        getPersistVersionKey(PERSIST_KEY),
+        getHashEntryKey(storage, HASH_PERSIST_KEY, 'a'),
+        getPersistVersionKey(HASH_PERSIST_KEY),
+        LIST_PERSIST_KEY,
+        getPersistVersionKey(LIST_PERSIST_KEY),
+        getPersistSegmentKey(LIST_PERSIST_KEY, 0),
+        getPersistSegmentKey(LIST_PERSIST_KEY, 1),
+        'unrelated',
+      ].sort(),
+    );
+  });
+
+  it('treats data of disposed stores as orphaned', async () => {
+    //* arrange
+    const storage = createEnumerableStorage();
+    const store = await setupStore(storage);
+    seedOrphans(storage);
+    store.$dispose();
+
+    //* act
+    const { orphans } = await collectCnPersistGarbage({ storages: [storage] });
+
+    //* assert
+    expect(orphans.map(({ key }) => key)).toContain(PERSIST_KEY);
+  });
+
+  it('keeps the hash entries of setup stores', async () => {
+    //* arrange
+    const storage = createEnumerableStorage();
+    const pinia = createPinia();
+    pinia.use(createCnPersistPiniaPlugin({ globalDebounce: 0 }));
+    createApp({}).use(pinia);
+    setActivePinia(pinia);
+    const useStore = defineStore(
+      STORE_ID,
+      () => {
+        const nodes = ref<Record<string, number>>({});
+        const hsetAndPersistNodes = (key: string, value: number) => {
+          nodes.value[key] = value;
+        };
+        return { [HASH_STATE_KEY]: nodes, hsetAndPersistNodes };
+      },
+      { cnPersist: { storage, states: { [HASH_STATE_KEY]: { policy: 'HASH' } } } },
+    );
+    const store = useStore();
+    store.hsetAndPersistNodes('a', 1);
+    await nextTick();
+    await store.$hydrated;
+
+    //* act
+    const { orphans } = await collectCnPersistGarbage({ storages: [storage], dryRun: false });
+
+    //* assert
+    expect(orphans).toEqual([]);
+    expect(storage.getItem(getHashEntryKey(storage, HASH_PERSIST_KEY, 'a'))).toBe('1');
+  });
+});
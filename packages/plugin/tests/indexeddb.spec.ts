@@ -0,0 +1,131 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { createApp, nextTick } from 'vue';
+import { createPinia, defineStore, setActivePinia } from 'pinia';
+import { IDBFactory } from 'fake-indexeddb';
+
+import { createCnPersistPiniaPlugin } from '../src/plugin';
+import { createIndexedDBStorage } from '../src/indexeddb';
+import { getPersistHashKey, getPersistKey } from '../src/util';
+import { AsyncStorageLike } from '../src/types';
+
+const STORE_ID = 'mock-store';
+const STATE_KEY = 'lorem';
+const STATE_VALUE = { name: 'ipsum' };
+const PERSIST_KEY = getPersistKey(STORE_ID, STATE_KEY);
+const HASH_STATE_KEY = 'nodes';
+const HASH_PERSIST_KEY = getPersistKey(STORE_ID, HASH_STATE_KEY);
+
+let storage: AsyncStorageLike;
+
+beforeEach(() => {
+  storage = createIndexedDBStorage({ indexedDB: new IDBFactory() });
+  const app = createApp({});
+  const pinia = createPinia();
+  pinia.use(createCnPersistPiniaPlugin({ globalDebounce: 0, storage }));
+  app.use(pinia);
+  setActivePinia(pinia);
+});
+
+describe('createIndexedDBStorage', () => {
+  it('reads, writes and removes items', async () => {
+    expect(await storage.getItem(PERSIST_KEY)).toBeNull();
+
+    await storage.setItem(PERSIST_KEY, 'dolor');
+    expect(await storage.getItem(PERSIST_KEY)).toEqual('dolor');
+
+    await storage.removeItem(PERSIST_KEY);
+    expect(await storage.getItem(PERSIST_KEY)).toBeNull();
+  });
+
+  it('reopens the database after a failed open', async () => {
+    //* arrange
+    const factory = new IDBFactory();
+    vi.spyOn(factory, 'open').mockImplementationOnce(() => {
+      throw new Error('blocked');
+    });
+    const storage_ = createIndexedDBStorage({ indexedDB: factory });
+
+    //* act
+    const failed = storage_.getItem(PERSIST_KEY);
+
+    //* assert
+    await expect(failed).rejects.toThrow('blocked');
+    await storage_.setItem(PERSIST_KEY, 'dolor');
+    expect(await storage_.getItem(PERSIST_KEY)).toEqual('dolor');
+  });
+
+  it('keeps hash indexes in a separate object store', async () => {
+    await storage.hashIndex!.setItem(PERSIST_KEY, '[]');
+
+    expect(await storage.getItem(PERSIST_KEY)).toBeNull();
+    expect(await storage.hashIndex!.getItem(PERSIST_KEY)).toEqual('[]');
+  });
+
+  it('creates missing object stores in an existing database', async () => {
+    //* arrange
+    const indexedDB = new IDBFactory();
+    await createIndexedDBStorage({ indexedDB }).setItem(PERSIST_KEY, 'dolor');
+    const renamedStorage = createIndexedDBStorage({ indexedDB, storeName: 'renamed-states' });
+
+    //* act
+    await renamedStorage.setItem(PERSIST_KEY, 'sit');
+
+    //* assert
+    expect(await renamedStorage.getItem(PERSIST_KEY)).toEqual('sit');
+    expect(await createIndexedDBStorage({ indexedDB }).getItem(PERSIST_KEY)).toEqual('dolor');
+  });
+});
+
+describe('w/ IndexedDB storage', () => {
+  const useStore = defineStore(STORE_ID, {
+    state: () => ({
+      [STATE_KEY]: {} as Record<string, string>,
+      [HASH_STATE_KEY]: {} as Record<string, { name: string }>,
+    }),
+    actions: {
+      hsetAndPersistNodes(key: string, value: { name: string }) {
+        this[HASH_STATE_KEY][key] = value;
+      },
+    },
+    cnPersist: {
+      states: {
+        [STATE_KEY]: {},
+        [HASH_STATE_KEY]: { policy: 'HASH' },
+      },
+    },
+  });
+
+  it('persists STRING states and HASH entries as separate records', async () => {
+    //* arrange
+    const store = useStore();
+    await store.$hydrated;
+
+    //* act
+    store[STATE_KEY] = STATE_VALUE;
+    store.hsetAndPersistNodes('a', STATE_VALUE);
+    await nextTick();
+
+    //* assert
+    await vi.waitFor(async () => {
+      expect(await storage.getItem(PERSIST_KEY)).toEqual(JSON.stringify(STATE_VALUE));
+      expect(await storage.getItem(getPersistHashKey(HASH_PERSIST_KEY, 'a'))).toEqual(JSON.stringify(STATE_VALUE));
+      expect(await storage.hashIndex!.getItem(HASH_PERSIST_KEY)).toEqual(JSON.stringify(['a']));
+    });
+    expect(await storage.getItem(HASH_PERSIST_KEY)).toBeNull();
+  });
+
+  it('rehydrates STRING states and HASH entries', async () => {
+    //* arrange
+    await storage.setItem(PERSIST_KEY, JSON.stringify(STATE_VALUE));
+    await storage.setItem(getPersistHashKey(HASH_PERSIST_KEY, 'a'), JSON.stringify(STATE_VALUE));
+    await storage.hashIndex!.setItem(HASH_PERSIST_KEY, JSON.stringify(['a']));
+
+    //* act
+    const store = useStore();
+    await store.$hydrated;
+
+    //* assert
+    expect(store[STATE_KEY]).toEqual(STATE_VALUE);
+    expect(store[HASH_STATE_KEY]).toEqual({ a: STATE_VALUE });
+  });
+});
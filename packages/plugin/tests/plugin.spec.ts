@@ -1,10 +1,16 @@
-import { beforeEach, describe, expect, it, vi } from 'vitest';
-import { createApp, nextTick, ref } from 'vue';
+import { beforeEach, describe, expect, expectTypeOf, it, vi } from 'vitest';
+import { createApp, nextTick, ref, watch } from 'vue';
 import { createPinia, defineStore, setActivePinia } from 'pinia';
 
 import { createCnPersistPiniaPlugin } from '../src/plugin';
+import { clearCnPersist, flushCnPersist } from '../src/persist';
+import { getCnPersistStats, resetCnPersistStats } from '../src/stats';
 import { initializeLocalStorage, readLocalStoage } from './utils';
-import { getPersistKey } from '../src/util';
+import { encrypt } from '../src/encryption';
+import { compress } from '../src/compression';
+import { getPersistHashKey, getPersistKey, getPersistVersionKey } from '../src/util';
+import { CnPersistFactoryOptions, CnSerializeContext, CnStateSerializer } from '../src/types';
+import { getHashEntryKey, getRegisteredStates, releaseCnPersist } from '../src/storage';
 
 const STORE_ID = 'mock-store';
 const STATE_KEY = 'lorem';
@@ -66,6 +72,14 @@ describe('default', () => {
       expect(store[STATE_KEY]).toEqual({});
       expect(localStorage.getItem).not.toHaveBeenCalled();
     });
+
+    it('resolves $hydrated', async () => {
+      //* act
+      const store = useStore();
+
+      //* assert
+      await expect(store.$hydrated).resolves.toBeUndefined();
+    });
   });
 
   describe('default settings', () => {
@@ -87,6 +101,22 @@ describe('default', () => {
       expect(localStorage.setItem).toHaveBeenCalledWith(PERSIST_KEY, JSON.stringify(STATE_VALUE));
     });
 
+    it('persists falsy initial values', () => {
+      //* arrange
+      const useFalsyStore = defineStore(STORE_ID, {
+        state: () => ({ count: 0, enabled: false, label: '' }),
+        cnPersist: true,
+      });
+
+      //* act
+      useFalsyStore();
+
+      //* assert
+      expect(localStorage.getItem(getPersistKey(STORE_ID, 'count'))).toEqual('0');
+      expect(localStorage.getItem(getPersistKey(STORE_ID, 'enabled'))).toEqual('false');
+      expect(localStorage.getItem(getPersistKey(STORE_ID, 'label'))).toEqual('""');
+    });
+
     it('rehydrates store from localStorage', async () => {
       //* arrange
       initializeLocalStorage({ persistKey: PERSIST_KEY, value: STATE_VALUE });
@@ -99,6 +129,59 @@ describe('default', () => {
       expect(store[STATE_KEY]).toEqual(STATE_VALUE);
       expect(localStorage.getItem).toHaveBeenCalledWith(PERSIST_KEY);
     });
+
+    it('persists changes made right after rehydration', async () => {
+      //* arrange
+      const COUNT_PERSIST_KEY = getPersistKey(STORE_ID, 'count');
+      const useCountStore = defineStore(STORE_ID, {
+        state: () => ({ count: 0 }),
+        cnPersist: true,
+      });
+      initializeLocalStorage({ persistKey: COUNT_PERSIST_KEY, value: 1 });
+
+      //* act
+      const store = useCountStore();
+      store.count = 5;
+      await nextTick();
+
+      //* assert
+      expect(readLocalStoage(COUNT_PERSIST_KEY)).toBe(5);
+    });
+
+    it('persists changes made in afterRestore', async () => {
+      //* arrange
+      const COUNT_PERSIST_KEY = getPersistKey(STORE_ID, 'count');
+      const useCountStore = defineStore(STORE_ID, {
+        state: () => ({ count: 0 }),
+        cnPersist: {
+          afterRestore: ({ store }) => {
+            store.count++;
+          },
+        },
+      });
+      initializeLocalStorage({ persistKey: COUNT_PERSIST_KEY, value: 1 });
+
+      //* act
+      const store = useCountStore();
+      await nextTick();
+
+      //* assert
+      expect(store.count).toBe(2);
+      expect(readLocalStoage(COUNT_PERSIST_KEY)).toBe(2);
+    });
+
+    it('does not persist rehydrated values again', async () => {
+      //* arrange
+      initializeLocalStorage({ persistKey: PERSIST_KEY, value: STATE_VALUE });
+      vi.mocked(localStorage.setItem).mockClear();
+
+      //* act
+      useStore();
+      await nextTick();
+
+      //* assert
+      expect(localStorage.setItem).not.toHaveBeenCalled();
+    });
   });
 
   describe('setup function syntax', () => {
@@ -340,231 +423,1461 @@ describe('default', () => {
     });
   });
 
-  describe('w/ hooks', () => {
-    const beforeRestore = vi.fn(ctx => {
-      ctx.store.before = 'before';
-    });
-    const afterRestore = vi.fn(ctx => {
-      ctx.store.after = 'after';
-    });
-    const useStore = defineStore(STORE_ID, {
-      state: () => ({
-        [STATE_KEY]: {},
-        before: '',
-        after: '',
+  describe('w/ async storage', () => {
+    let stored: Record<string, string>;
+    const storage = {
+      getItem: vi.fn(async (key: string) => stored[key] ?? null),
+      setItem: vi.fn(async (key: string, value: string) => {
+        stored[key] = value;
       }),
-      cnPersist: { beforeRestore, afterRestore },
+      removeItem: vi.fn(async (key: string) => {
+        delete stored[key];
+      }),
+    };
+
+    const useStore = defineStore(STORE_ID, {
+      state: () => ({ [STATE_KEY]: {} }),
+      cnPersist: { storage },
     });
 
-    it('runs hooks before and after hydration', async () => {
+    it('persists to given async storage', async () => {
       //* arrange
-      initializeLocalStorage({ persistKey: PERSIST_KEY, value: STATE_VALUE });
+      stored = {};
+      const store = useStore();
+      await store.$hydrated;
 
       //* act
+      store[STATE_KEY] = STATE_VALUE;
       await nextTick();
-      const store = useStore();
 
       //* assert
-      expect(store[STATE_KEY]).toEqual(STATE_VALUE);
-      expect(beforeRestore).toHaveBeenCalled();
-      expect(store.before).toEqual('before');
-      expect(afterRestore).toHaveBeenCalled();
-      expect(store.after).toEqual('after');
+      await vi.waitFor(() => expect(stored[PERSIST_KEY]).toEqual(JSON.stringify(STATE_VALUE)));
+      expect(storage.setItem).toHaveBeenCalledWith(PERSIST_KEY, JSON.stringify(STATE_VALUE));
     });
-  });
 
-  describe('w/ serializer', () => {
-    it('deserializes', async () => {
+    it('rehydrates from given async storage', async () => {
       //* arrange
-      initializeLocalStorage({ persistKey: PERSIST_KEY, value: STATE_VALUE });
-      const deserialize = vi.fn(JSON.parse);
-      const useStore = defineStore(STORE_ID, {
-        state: () => ({ [STATE_KEY]: {} }),
-        cnPersist: {
-          states: {
-            [STATE_KEY]: {
-              serialize: JSON.stringify,
-              deserialize,
-            },
-          },
-        },
-      });
+      stored = { [PERSIST_KEY]: JSON.stringify(STATE_VALUE) };
 
       //* act
-      await nextTick();
-      useStore();
+      const store = useStore();
 
       //* assert
-      expect(deserialize).toHaveBeenCalledWith(localStorage.getItem(PERSIST_KEY));
-      expect(deserialize).toHaveReturnedWith(STATE_VALUE);
+      expect(store[STATE_KEY]).toEqual({});
+      await store.$hydrated;
+      expect(store[STATE_KEY]).toEqual(STATE_VALUE);
     });
 
-    it('serializes', async () => {
+    it('rehydrates manually with $hydrate', async () => {
       //* arrange
-      const serialize = vi.fn(JSON.stringify);
-      const useStore = defineStore(STORE_ID, {
-        state: () => ({ [STATE_KEY]: STATE_VALUE }),
-        cnPersist: {
-          states: {
-            [STATE_KEY]: {
-              serialize,
-              deserialize: JSON.parse,
-            },
-          },
-        },
-      });
+      stored = {};
       const store = useStore();
+      await store.$hydrated;
+      stored[PERSIST_KEY] = JSON.stringify(STATE_VALUE);
 
       //* act
-      const NEW_VALUE = { name: 'dolor' };
-      store[STATE_KEY] = NEW_VALUE;
-      await nextTick();
+      await store.$hydrate();
 
       //* assert
-      expect(serialize).toHaveBeenCalledWith(NEW_VALUE);
-      expect(serialize).toHaveReturnedWith(localStorage.getItem(PERSIST_KEY));
+      expect(store[STATE_KEY]).toEqual(STATE_VALUE);
     });
-  });
 
-  describe('w/ debug', () => {
-    it('error logs creation errors (storage permissions)', () => {
+    it('catches async storage.get errors', async () => {
       //* arrange
-      const error = new Error('access_denied');
-      /**
-       * get 表示，当代码尝试获取 localStorage 属性时，抛出错误
-       */
-      Object.defineProperty(window, 'localStorage', {
-        get: () => {
-          throw error;
+      stored = {};
+      storage.getItem.mockImplementationOnce(() => Promise.reject(new Error('get_error')));
+
+      //* assert
+      await expect(useStore().$hydrated).resolves.toBeUndefined();
+    });
+  });
+
+  describe('w/ crossTab', () => {
+    const HASH_STATE_KEY = 'nodes';
+    const HASH_PERSIST_KEY = getPersistKey(STORE_ID, HASH_STATE_KEY);
+    const NEW_VALUE = { name: 'dolor' };
+
+    const produceUseStore = (crossTab: boolean | 'broadcast') =>
+      defineStore(STORE_ID, {
+        state: () => ({
+          [STATE_KEY]: {},
+          [HASH_STATE_KEY]: {} as Record<string, { name: string }>,
+        }),
+        actions: {
+          hsetAndPersistNodes(key: string, value: { name: string }) {
+            this[HASH_STATE_KEY][key] = value;
+          },
         },
-      });
-      const spy = vi.spyOn(globalThis.console, 'error').mockImplementationOnce(() => {});
-      const useStore = defineStore(STORE_ID, {
-        state: () => ({ [STATE_KEY]: {} }),
         cnPersist: {
-          debug: true,
+          crossTab,
+          states: { [STATE_KEY]: {}, [HASH_STATE_KEY]: { policy: 'HASH' } },
         },
       });
 
+    const dispatchStorageEvent = (key: string, newValue: string | null) => {
+      window.dispatchEvent(new StorageEvent('storage', { key, newValue }));
+    };
+
+    it('restores STRING state written by another tab without persisting it again', async () => {
+      //* arrange
+      const store = produceUseStore(true)();
+      await nextTick();
+      vi.mocked(localStorage.setItem).mockClear();
+
       //* act
-      useStore();
+      dispatchStorageEvent(PERSIST_KEY, JSON.stringify(NEW_VALUE));
+      await nextTick();
 
       //* assert
-      expect(spy).toHaveBeenCalledWith('[cn-persist-pinia-plugin] produceStatePersistContext', error);
+      expect(store[STATE_KEY]).toEqual(NEW_VALUE);
+      expect(localStorage.setItem).not.toHaveBeenCalled();
     });
 
-    it('error logs hydration errors', () => {
+    it('restores and prunes HASH entries written by another tab', async () => {
       //* arrange
-      const error = new Error('failed_hydration');
-      const spy = vi.spyOn(globalThis.console, 'error').mockImplementationOnce(() => {});
-      const useStore = defineStore(STORE_ID, {
-        state: () => ({ [STATE_KEY]: {} }),
-        cnPersist: {
-          storage: {
-            getItem: () => {
-              throw error;
-            },
-            setItem: localStorage.setItem,
-            removeItem: localStorage.removeItem,
-          },
-          debug: true,
-        },
-      });
+      const store = produceUseStore(true)();
+      store.hsetAndPersistNodes('a', STATE_VALUE);
+      await nextTick();
 
       //* act
-      useStore();
+      dispatchStorageEvent(getPersistHashKey(HASH_PERSIST_KEY, 'b'), JSON.stringify(NEW_VALUE));
+      dispatchStorageEvent(HASH_PERSIST_KEY, JSON.stringify(['b']));
 
       //* assert
-      expect(spy).toHaveBeenCalledWith(`[cn-persist-pinia-plugin] StorageLike.getItem('${PERSIST_KEY}')`, error);
+      expect(store[HASH_STATE_KEY]).toEqual({ b: NEW_VALUE });
     });
 
-    it('error logs persistence errors', async () => {
+    it('ignores storage events when disabled', async () => {
       //* arrange
-      const error = new Error('failed_persistence');
-      const spy = vi.spyOn(globalThis.console, 'error').mockImplementationOnce(() => {});
-      const useStore = defineStore(STORE_ID, {
-        state: () => ({ [STATE_KEY]: {} }),
-        cnPersist: {
-          storage: {
-            getItem: localStorage.getItem,
-            setItem: () => {
-              throw error;
-            },
-            removeItem: localStorage.removeItem,
-          },
-          debug: true,
-        },
-      });
+      const store = produceUseStore(false)();
+      await nextTick();
 
       //* act
-      const store = useStore();
-      store[STATE_KEY] = STATE_VALUE;
+      dispatchStorageEvent(PERSIST_KEY, JSON.stringify(NEW_VALUE));
+
+      //* assert
+      expect(store[STATE_KEY]).toEqual({});
+    });
+
+    it('restores state notified through BroadcastChannel', async () => {
+      //* arrange
+      const store = produceUseStore('broadcast')();
       await nextTick();
+      const channel = new BroadcastChannel('cn-persist-pinia-plugin');
+
+      //* act
+      localStorage.setItem(PERSIST_KEY, JSON.stringify(NEW_VALUE));
+      channel.postMessage({ key: PERSIST_KEY });
 
       //* assert
-      expect(spy).toHaveBeenCalledWith(
-        `[cn-persist-pinia-plugin] StorageLike.setItem('${PERSIST_KEY}', '${JSON.stringify(STATE_VALUE)}')`,
-        error,
-      );
+      await vi.waitFor(() => expect(store[STATE_KEY]).toEqual(NEW_VALUE));
+      channel.close();
+      store.$dispose();
     });
   });
 
-  describe('multiple persistences', () => {
-    let stored1: Record<string, string>;
-    const storage1 = {
-      getItem: vi.fn(key => stored1[key]),
-      setItem: vi.fn((key, value) => {
-        stored1[key] = value;
-      }),
-      removeItem: localStorage.removeItem,
-    };
-    let stored2: Record<string, string>;
-    const storage2 = {
-      getItem: vi.fn(key => stored2[key]),
-      setItem: vi.fn((key, value) => {
-        stored2[key] = value;
-      }),
-      removeItem: localStorage.removeItem,
+  describe('w/ version', () => {
+    const VERSION_KEY = getPersistVersionKey(PERSIST_KEY);
+    const HASH_STATE_KEY = 'nodes';
+    const HASH_PERSIST_KEY = getPersistKey(STORE_ID, HASH_STATE_KEY);
+    const migrations = {
+      1: vi.fn((value: unknown) => ({ fullName: (value as { name: string }).name })),
+      2: vi.fn((value: unknown) => ({ ...(value as object), migrated: true })),
     };
 
     const useStore = defineStore(STORE_ID, {
       state: () => ({
-        s1: '',
-        s2: '',
+        [STATE_KEY]: {},
+        [HASH_STATE_KEY]: {} as Record<string, unknown>,
       }),
+      actions: {
+        hsetAndPersistNodes(key: string, value: unknown) {
+          this[HASH_STATE_KEY][key] = value;
+        },
+      },
       cnPersist: {
-        states: { s1: { storage: storage1 }, s2: { storage: storage2 } },
+        version: 2,
+        migrations,
+        states: { [STATE_KEY]: {}, [HASH_STATE_KEY]: { policy: 'HASH' } },
       },
     });
 
-    it('persists to different storages', async () => {
-      stored1 = {};
-      stored2 = {};
+    beforeEach(() => {
+      migrations[1].mockClear();
+      migrations[2].mockClear();
+    });
+
+    it('persists version next to the data', async () => {
+      //* arrange
       const store = useStore();
 
-      store.s1 = 'lorem';
-      store.s2 = 'ipsum';
+      //* act
+      store[STATE_KEY] = STATE_VALUE;
       await nextTick();
 
-      const persistKey1 = getPersistKey(STORE_ID, 's1');
-      const persistKey2 = getPersistKey(STORE_ID, 's2');
-      const persistValue1 = JSON.stringify('lorem');
-      const persistValue2 = JSON.stringify('ipsum');
-
-      expect(stored1[persistKey1]).toEqual(persistValue1);
-      expect(stored2[persistKey2]).toEqual(persistValue2);
-      expect(storage1.setItem).toHaveBeenCalledWith(persistKey1, persistValue1);
-      expect(storage2.setItem).toHaveBeenCalledWith(persistKey2, persistValue2);
+      //* assert
+      expect(readLocalStoage(PERSIST_KEY)).toEqual(STATE_VALUE);
+      expect(localStorage.getItem(VERSION_KEY)).toEqual('2');
     });
 
-    // it('rehydrates from different storages', () => {})
-  });
+    it('migrates unversioned data one version at a time and persists it again', async () => {
+      //* arrange
+      initializeLocalStorage(
+        { persistKey: PERSIST_KEY, value: STATE_VALUE },
+        { persistKey: HASH_PERSIST_KEY, value: ['a'] },
+        { persistKey: getPersistHashKey(HASH_PERSIST_KEY, 'a'), value: STATE_VALUE },
+      );
+      const MIGRATED_VALUE = { fullName: 'ipsum', migrated: true };
 
-  describe('$hydrate', () => {
-    const beforeRestore = vi.fn();
-    const afterRestore = vi.fn();
-    const useStore = defineStore(STORE_ID, {
-      state: () => ({ [STATE_KEY]: {} }),
+      //* act
+      const store = useStore();
+      await nextTick();
+
+      //* assert
+      expect(store[STATE_KEY]).toEqual(MIGRATED_VALUE);
+      expect(store[HASH_STATE_KEY]).toEqual({ a: MIGRATED_VALUE });
+      expect(migrations[1]).toHaveBeenCalledTimes(2);
+      expect(migrations[2]).toHaveBeenCalledTimes(2);
+      expect(readLocalStoage(PERSIST_KEY)).toEqual(MIGRATED_VALUE);
+      expect(readLocalStoage(getPersistHashKey(HASH_PERSIST_KEY, 'a'))).toEqual(MIGRATED_VALUE);
+      expect(localStorage.getItem(VERSION_KEY)).toEqual('2');
+    });
+
+    it('runs only the missing migrations', async () => {
+      //* arrange
+      initializeLocalStorage({ persistKey: PERSIST_KEY, value: { fullName: 'ipsum' } });
+      localStorage.setItem(VERSION_KEY, '1');
+
+      //* act
+      const store = useStore();
+
+      //* assert
+      expect(store[STATE_KEY]).toEqual({ fullName: 'ipsum', migrated: true });
+      expect(migrations[1]).not.toHaveBeenCalled();
+      expect(migrations[2]).toHaveBeenCalledTimes(1);
+    });
+
+    it('does not restore data of a newer version', async () => {
+      //* arrange
+      initializeLocalStorage({ persistKey: PERSIST_KEY, value: STATE_VALUE });
+      localStorage.setItem(VERSION_KEY, '3');
+
+      //* act
+      const store = useStore();
+
+      //* assert
+      expect(store[STATE_KEY]).toEqual({});
+    });
+  });
+
+  describe('w/ encryption', () => {
+    const HASH_STATE_KEY = 'nodes';
+    const HASH_PERSIST_KEY = getPersistKey(STORE_ID, HASH_STATE_KEY);
+    const encryption = { key: vi.fn(async () => new Uint8Array(32).fill(7)) };
+
+    const useStore = defineStore(STORE_ID, {
+      state: () => ({
+        [STATE_KEY]: {},
+        [HASH_STATE_KEY]: {} as Record<string, unknown>,
+        plain: '',
+      }),
+      actions: {
+        hsetAndPersistNodes(key: string, value: unknown) {
+          this[HASH_STATE_KEY][key] = value;
+        },
+      },
+      cnPersist: {
+        encryption,
+        states: { [STATE_KEY]: {}, [HASH_STATE_KEY]: { policy: 'HASH' }, plain: { encryption: false } },
+      },
+    });
+
+    it('persists encrypted STRING states and HASH entries', async () => {
+      //* arrange
+      const store = useStore();
+
+      //* act
+      store[STATE_KEY] = STATE_VALUE;
+      store.hsetAndPersistNodes('a', STATE_VALUE);
+      store.plain = 'dolor';
+      await nextTick();
+
+      //* assert
+      const HASH_ENTRY_KEY = getPersistHashKey(HASH_PERSIST_KEY, 'a');
+      await vi.waitFor(() => expect(localStorage.getItem(HASH_ENTRY_KEY)).toMatch(/^cn-aes-gcm:/));
+      expect(localStorage.getItem(PERSIST_KEY)).toMatch(/^cn-aes-gcm:/);
+      expect(localStorage.getItem(PERSIST_KEY)).not.toContain('ipsum');
+      expect(readLocalStoage(HASH_PERSIST_KEY)).toEqual(['a']);
+      expect(readLocalStoage(getPersistKey(STORE_ID, 'plain'))).toEqual('dolor');
+      expect(encryption.key).toHaveBeenCalledTimes(1);
+    });
+
+    it('rehydrates encrypted and legacy plain values', async () => {
+      //* arrange
+      initializeLocalStorage(
+        { persistKey: HASH_PERSIST_KEY, value: ['a'] },
+        { persistKey: getPersistHashKey(HASH_PERSIST_KEY, 'a'), value: STATE_VALUE },
+      );
+      localStorage.setItem(PERSIST_KEY, await encrypt(JSON.stringify(STATE_VALUE), encryption));
+
+      //* act
+      const store = useStore();
+      await store.$hydrated;
+
+      //* assert
+      expect(store[STATE_KEY]).toEqual(STATE_VALUE);
+      expect(store[HASH_STATE_KEY]).toEqual({ a: STATE_VALUE });
+    });
+  });
+
+  describe('w/ compression', () => {
+    const LARGE_VALUE = { items: Array.from({ length: 100 }, () => 'lorem ipsum dolor sit amet') };
+    const useStore = defineStore(STORE_ID, {
+      state: () => ({ [STATE_KEY]: {} }),
+      cnPersist: { compression: { threshold: 100 } },
+    });
+
+    it('persists large values compressed', async () => {
+      //* arrange
+      const store = useStore();
+
+      //* act
+      store[STATE_KEY] = LARGE_VALUE;
+      await nextTick();
+
+      //* assert
+      const persistedValue = localStorage.getItem(PERSIST_KEY)!;
+      expect(persistedValue.startsWith('cn-lz:')).toBe(true);
+      expect(persistedValue.length).toBeLessThan(JSON.stringify(LARGE_VALUE).length);
+    });
+
+    it('rehydrates compressed values', () => {
+      //* arrange
+      initializeLocalStorage();
+      localStorage.setItem(PERSIST_KEY, compress(JSON.stringify(LARGE_VALUE), {}));
+
+      //* act
+      const store = useStore();
+
+      //* assert
+      expect(store[STATE_KEY]).toEqual(LARGE_VALUE);
+    });
+
+    it('rehydrates values persisted before compression was enabled', () => {
+      //* arrange
+      initializeLocalStorage({ persistKey: PERSIST_KEY, value: LARGE_VALUE });
+
+      //* act
+      const store = useStore();
+
+      //* assert
+      expect(store[STATE_KEY]).toEqual(LARGE_VALUE);
+    });
+  });
+
+  describe('w/ ttl', () => {
+    const TTL = 60 * 60 * 1000;
+    const HASH_STATE_KEY = 'nodes';
+    const HASH_PERSIST_KEY = getPersistKey(STORE_ID, HASH_STATE_KEY);
+    const onExpire = vi.fn();
+    const stamped = (value: unknown, age: number) => `cn-ttl:${Date.now() - age}:${JSON.stringify(value)}`;
+
+    const useStore = defineStore(STORE_ID, {
+      state: () => ({
+        [STATE_KEY]: {},
+        [HASH_STATE_KEY]: {} as Record<string, unknown>,
+      }),
+      actions: {
+        hsetAndPersistNodes(key: string, value: unknown) {
+          this[HASH_STATE_KEY][key] = value;
+        },
+      },
+      cnPersist: {
+        states: {
+          [STATE_KEY]: { ttl: TTL, onExpire },
+          [HASH_STATE_KEY]: { policy: 'HASH', ttl: TTL, onExpire },
+        },
+      },
+    });
+
+    beforeEach(() => {
+      onExpire.mockClear();
+    });
+
+    it('persists values with their write time', async () => {
+      //* arrange
+      const store = useStore();
+
+      //* act
+      store[STATE_KEY] = STATE_VALUE;
+      await nextTick();
+
+      //* assert
+      expect(localStorage.getItem(PERSIST_KEY)).toMatch(new RegExp(`^cn-ttl:\\d+:${JSON.stringify(STATE_VALUE)}$`));
+    });
+
+    it('rehydrates unexpired and legacy values', () => {
+      //* arrange
+      initializeLocalStorage(
+        { persistKey: HASH_PERSIST_KEY, value: ['a'] },
+        { persistKey: getPersistHashKey(HASH_PERSIST_KEY, 'a'), value: STATE_VALUE },
+      );
+      localStorage.setItem(PERSIST_KEY, stamped(STATE_VALUE, TTL / 2));
+
+      //* act
+      const store = useStore();
+
+      //* assert
+      expect(store[STATE_KEY]).toEqual(STATE_VALUE);
+      expect(store[HASH_STATE_KEY]).toEqual({ a: STATE_VALUE });
+      expect(onExpire).not.toHaveBeenCalled();
+    });
+
+    it('skips and removes expired STRING states and HASH entries', () => {
+      //* arrange
+      initializeLocalStorage({ persistKey: HASH_PERSIST_KEY, value: ['a', 'b'] });
+      localStorage.setItem(PERSIST_KEY, stamped(STATE_VALUE, TTL * 2));
+      localStorage.setItem(getPersistHashKey(HASH_PERSIST_KEY, 'a'), stamped(STATE_VALUE, TTL * 2));
+      localStorage.setItem(getPersistHashKey(HASH_PERSIST_KEY, 'b'), stamped(STATE_VALUE, 0));
+
+      //* act
+      const store = useStore();
+
+      //* assert
+      expect(store[STATE_KEY]).toEqual({});
+      expect(store[HASH_STATE_KEY]).toEqual({ b: STATE_VALUE });
+      expect(localStorage.getItem(PERSIST_KEY)).toBeUndefined();
+      expect(localStorage.getItem(getPersistHashKey(HASH_PERSIST_KEY, 'a'))).toBeUndefined();
+      expect(readLocalStoage(HASH_PERSIST_KEY)).toEqual(['b']);
+      expect(onExpire).toHaveBeenCalledWith(STATE_KEY, undefined);
+      expect(onExpire).toHaveBeenCalledWith(HASH_STATE_KEY, 'a');
+    });
+  });
+
+  describe('w/ hdel action', () => {
+    const HASH_STATE_KEY = 'nodes';
+    const HASH_PERSIST_KEY = getPersistKey(STORE_ID, HASH_STATE_KEY);
+
+    const useStore = defineStore(STORE_ID, {
+      state: () => ({ [HASH_STATE_KEY]: {} as Record<string, unknown> }),
+      actions: {
+        hsetAndPersistNodes(key: string, value: unknown) {
+          this[HASH_STATE_KEY][key] = value;
+        },
+        hdelAndPersistNodes(key: string) {
+          delete this[HASH_STATE_KEY][key];
+        },
+      },
+      cnPersist: { states: { [HASH_STATE_KEY]: { policy: 'HASH' } } },
+    });
+
+    it('removes the entry and its key from the hash index', () => {
+      //* arrange
+      const store = useStore();
+      store.hsetAndPersistNodes('a', STATE_VALUE);
+      store.hsetAndPersistNodes('b', STATE_VALUE);
+
+      //* act
+      store.hdelAndPersistNodes('a');
+
+      //* assert
+      expect(localStorage.getItem(getPersistHashKey(HASH_PERSIST_KEY, 'a'))).toBeUndefined();
+      expect(readLocalStoage(getPersistHashKey(HASH_PERSIST_KEY, 'b'))).toEqual(STATE_VALUE);
+      expect(readLocalStoage(HASH_PERSIST_KEY)).toEqual(['b']);
+    });
+
+    it('merges deletions with pending entries during the debounce window', () => {
+      //* arrange
+      vi.useFakeTimers();
+      const pinia = createPinia();
+      pinia.use(createCnPersistPiniaPlugin({ globalDebounce: 100 }));
+      createApp({}).use(pinia);
+      setActivePinia(pinia);
+      initializeLocalStorage(
+        { persistKey: HASH_PERSIST_KEY, value: ['a'] },
+        { persistKey: getPersistHashKey(HASH_PERSIST_KEY, 'a'), value: STATE_VALUE },
+      );
+      const store = useStore();
+
+      //* act
+      store.hsetAndPersistNodes('b', STATE_VALUE);
+      store.hdelAndPersistNodes('b');
+      store.hdelAndPersistNodes('a');
+      store.hsetAndPersistNodes('c', STATE_VALUE);
+      store.hdelAndPersistNodes('c');
+      store.hsetAndPersistNodes('c', STATE_VALUE);
+      vi.runAllTimers();
+      vi.useRealTimers();
+
+      //* assert
+      expect(localStorage.getItem(getPersistHashKey(HASH_PERSIST_KEY, 'a'))).toBeUndefined();
+      expect(localStorage.getItem(getPersistHashKey(HASH_PERSIST_KEY, 'b'))).toBeUndefined();
+      expect(readLocalStoage(getPersistHashKey(HASH_PERSIST_KEY, 'c'))).toEqual(STATE_VALUE);
+      expect(readLocalStoage(HASH_PERSIST_KEY)).toEqual(['c']);
+    });
+  });
+
+  describe('w/ hash scan storage', () => {
+    const HASH_STATE_KEY = 'nodes';
+    const HASH_PERSIST_KEY = getPersistKey(STORE_ID, HASH_STATE_KEY);
+    const OTHER_STATE_KEY = 'nodes-extra';
+
+    let state: Record<string, string>;
+    const storage = {
+      getItem: (key: string) => state[key] ?? null,
+      setItem: vi.fn((key: string, value: string) => {
+        state[key] = value;
+      }),
+      removeItem: (key: string) => {
+        delete state[key];
+      },
+      keys: () => Object.keys(state),
+      hashScan: true,
+    };
+
+    const useStore = defineStore(STORE_ID, {
+      state: () => ({ [HASH_STATE_KEY]: {} as Record<string, unknown>, [OTHER_STATE_KEY]: '' }),
+      actions: {
+        hsetAndPersistNodes(key: string, value: unknown) {
+          this[HASH_STATE_KEY][key] = value;
+        },
+      },
+      cnPersist: { storage, states: { [HASH_STATE_KEY]: { policy: 'HASH' }, [OTHER_STATE_KEY]: {} } },
+    });
+
+    beforeEach(() => {
+      state = {};
+      storage.setItem.mockClear();
+    });
+
+    it('does not persist the hash index', () => {
+      //* arrange
+      const store = useStore();
+      storage.setItem.mockClear();
+
+      //* act
+      store.hsetAndPersistNodes('a', STATE_VALUE);
+
+      //* assert
+      expect(storage.setItem).toHaveBeenCalledOnce();
+      expect(JSON.parse(state[getHashEntryKey(storage, HASH_PERSIST_KEY, 'a')])).toEqual(STATE_VALUE);
+      expect(state[HASH_PERSIST_KEY]).toBeUndefined();
+    });
+
+    it('rehydrates entries by scanning the key prefix', () => {
+      //* arrange
+      state[getHashEntryKey(storage, HASH_PERSIST_KEY, 'a')] = JSON.stringify(STATE_VALUE);
+      state[getHashEntryKey(storage, HASH_PERSIST_KEY, 'b-c')] = JSON.stringify('d');
+      state[getPersistKey(STORE_ID, OTHER_STATE_KEY)] = JSON.stringify('other');
+
+      //* act
+      const store = useStore();
+
+      //* assert
+      expect(store[HASH_STATE_KEY]).toEqual({ a: STATE_VALUE, 'b-c': 'd' });
+      expect(store[OTHER_STATE_KEY]).toEqual('other');
+    });
+
+    it('does not rehydrate the data of another store sharing the key prefix', () => {
+      //* arrange
+      state[getHashEntryKey(storage, HASH_PERSIST_KEY, 'a')] = JSON.stringify(STATE_VALUE);
+      // store 'mock-store-nodes' 的 state 'b' 与 store 'mock-store' 的 state 'nodes' 的 Entry 'b' 在 '-' 连接时的 key 相同
+      state[getPersistKey(`${STORE_ID}-${HASH_STATE_KEY}`, 'b')] = JSON.stringify('other');
+
+      //* act
+      const store = useStore();
+
+      //* assert
+      expect(store[HASH_STATE_KEY]).toEqual({ a: STATE_VALUE });
+    });
+
+    it('keeps the hash index for enumerable storages without hash scan', () => {
+      //* arrange
+      const useIndexedStore = defineStore(STORE_ID, {
+        state: () => ({ [HASH_STATE_KEY]: {} as Record<string, unknown> }),
+        actions: {
+          hsetAndPersistNodes(key: string, value: unknown) {
+            this[HASH_STATE_KEY][key] = value;
+          },
+        },
+        cnPersist: { storage: { ...storage, hashScan: false }, states: { [HASH_STATE_KEY]: { policy: 'HASH' } } },
+      });
+      const store = useIndexedStore();
+
+      //* act
+      store.hsetAndPersistNodes('a', STATE_VALUE);
+
+      //* assert
+      expect(JSON.parse(state[getPersistHashKey(HASH_PERSIST_KEY, 'a')])).toEqual(STATE_VALUE);
+      expect(JSON.parse(state[HASH_PERSIST_KEY])).toEqual(['a']);
+    });
+
+    it('removes stale entries found by scanning on reset', async () => {
+      //* arrange
+      state[getHashEntryKey(storage, HASH_PERSIST_KEY, 'a')] = JSON.stringify(STATE_VALUE);
+      const store = useStore();
+      await nextTick();
+
+      //* act
+      store[HASH_STATE_KEY] = { b: STATE_VALUE };
+      await nextTick();
+
+      //* assert
+      expect(state[getHashEntryKey(storage, HASH_PERSIST_KEY, 'a')]).toBeUndefined();
+      expect(JSON.parse(state[getHashEntryKey(storage, HASH_PERSIST_KEY, 'b')])).toEqual(STATE_VALUE);
+      expect(state[HASH_PERSIST_KEY]).toBeUndefined();
+    });
+  });
+
+  describe('w/ LIST policy', () => {
+    const LIST_STATE_KEY = 'logs';
+    const LIST_PERSIST_KEY = getPersistKey(STORE_ID, LIST_STATE_KEY);
+    const segmentKey = (segmentIndex: number) => `${LIST_PERSIST_KEY}#${segmentIndex}`;
+    const segment = (...items: Array<string>) => JSON.stringify(items.map(item => JSON.stringify(item)));
+
+    const useStore = defineStore(STORE_ID, {
+      state: () => ({ [LIST_STATE_KEY]: [] as Array<string> }),
+      actions: {
+        lpushAndPersistLogs(...items: Array<string>) {
+          this[LIST_STATE_KEY].push(...items);
+        },
+        lsetAndPersistLogs(index: number, item: string) {
+          this[LIST_STATE_KEY][index] = item;
+        },
+      },
+      cnPersist: { states: { [LIST_STATE_KEY]: { policy: 'LIST', segmentSize: 2 } } },
+    });
+
+    it('persists appended items in fixed-size segments', () => {
+      //* arrange
+      const store = useStore();
+      store.lpushAndPersistLogs('a', 'b', 'c');
+      vi.mocked(localStorage.setItem).mockClear();
+
+      //* act
+      store.lpushAndPersistLogs('d');
+
+      //* assert
+      expect(localStorage.getItem(segmentKey(0))).toEqual(segment('a', 'b'));
+      expect(localStorage.getItem(segmentKey(1))).toEqual(segment('c', 'd'));
+      expect(readLocalStoage(LIST_PERSIST_KEY)).toEqual({ length: 4, segmentSize: 2 });
+      expect(vi.mocked(localStorage.setItem).mock.calls.map(([key]) => key)).toEqual([segmentKey(1), LIST_PERSIST_KEY]);
+    });
+
+    it('rewrites only the segment of an edited item', () => {
+      //* arrange
+      const store = useStore();
+      store.lpushAndPersistLogs('a', 'b', 'c');
+      vi.mocked(localStorage.setItem).mockClear();
+
+      //* act
+      store.lsetAndPersistLogs(0, 'z');
+
+      //* assert
+      expect(localStorage.getItem(segmentKey(0))).toEqual(segment('z', 'b'));
+      expect(vi.mocked(localStorage.setItem).mock.calls.map(([key]) => key)).toEqual([segmentKey(0), LIST_PERSIST_KEY]);
+    });
+
+    it('rewrites all segments and removes stale ones when the array is replaced', async () => {
+      //* arrange
+      const store = useStore();
+      store.lpushAndPersistLogs('a', 'b', 'c');
+
+      //* act
+      store[LIST_STATE_KEY] = ['x'];
+      await nextTick();
+
+      //* assert
+      expect(localStorage.getItem(segmentKey(0))).toEqual(segment('x'));
+      expect(localStorage.getItem(segmentKey(1))).toBeUndefined();
+      expect(readLocalStoage(LIST_PERSIST_KEY)).toEqual({ length: 1, segmentSize: 2 });
+    });
+
+    it('rehydrates segments', () => {
+      //* arrange
+      initializeLocalStorage({ persistKey: LIST_PERSIST_KEY, value: { length: 3, segmentSize: 2 } });
+      localStorage.setItem(segmentKey(0), segment('a', 'b'));
+      localStorage.setItem(segmentKey(1), segment('c'));
+
+      //* act
+      const store = useStore();
+
+      //* assert
+      expect(store[LIST_STATE_KEY]).toEqual(['a', 'b', 'c']);
+    });
+
+    it('keeps null items when persisting and rehydrating', () => {
+      //* arrange
+      const useNullableStore = defineStore(STORE_ID, {
+        state: () => ({ [LIST_STATE_KEY]: [] as Array<string | null> }),
+        actions: {
+          lpushAndPersistLogs(...items: Array<string | null>) {
+            this[LIST_STATE_KEY].push(...items);
+          },
+        },
+        cnPersist: { states: { [LIST_STATE_KEY]: { policy: 'LIST', segmentSize: 2 } } },
+      });
+      useNullableStore().lpushAndPersistLogs('a', null, 'c');
+      const pinia = createPinia();
+      pinia.use(createCnPersistPiniaPlugin({ globalDebounce: 0 }));
+      createApp({}).use(pinia);
+      setActivePinia(pinia);
+      vi.mocked(localStorage.setItem).mockClear();
+
+      //* act
+      const store = useNullableStore();
+
+      //* assert
+      expect(localStorage.getItem(segmentKey(0))).toEqual(JSON.stringify(['"a"', '']));
+      expect(store[LIST_STATE_KEY]).toEqual(['a', null, 'c']);
+      expect(localStorage.setItem).not.toHaveBeenCalled();
+    });
+
+    it('persists the segments of pushed items regardless of the action arguments', () => {
+      //* arrange
+      const useBatchStore = defineStore(STORE_ID, {
+        state: () => ({ [LIST_STATE_KEY]: [] as Array<string> }),
+        actions: {
+          lpushAndPersistLogs(items: Array<string>) {
+            this[LIST_STATE_KEY].push(...items);
+          },
+        },
+        cnPersist: { states: { [LIST_STATE_KEY]: { policy: 'LIST', segmentSize: 2 } } },
+      });
+      const store = useBatchStore();
+
+      //* act
+      store.lpushAndPersistLogs(['a', 'b', 'c']);
+
+      //* assert
+      expect(localStorage.getItem(segmentKey(0))).toEqual(segment('a', 'b'));
+      expect(localStorage.getItem(segmentKey(1))).toEqual(segment('c'));
+      expect(readLocalStoage(LIST_PERSIST_KEY)).toEqual({ length: 3, segmentSize: 2 });
+    });
+
+    it('skips expired items and keeps the write time of the others', () => {
+      //* arrange
+      const TTL = 60 * 60 * 1000;
+      const onExpire = vi.fn();
+      const useTtlStore = defineStore(STORE_ID, {
+        state: () => ({ [LIST_STATE_KEY]: [] as Array<string> }),
+        actions: {
+          lpushAndPersistLogs(...items: Array<string>) {
+            this[LIST_STATE_KEY].push(...items);
+          },
+        },
+        cnPersist: { states: { [LIST_STATE_KEY]: { policy: 'LIST', segmentSize: 2, ttl: TTL, onExpire } } },
+      });
+      const stamped = (item: string, age: number) => `cn-ttl:${Date.now() - age}:${JSON.stringify(item)}`;
+      const expired = stamped('a', TTL * 2);
+      const unexpired = [stamped('b', 0), stamped('c', 0), stamped('d', 0)];
+      initializeLocalStorage({ persistKey: LIST_PERSIST_KEY, value: { length: 4, segmentSize: 2 } });
+      localStorage.setItem(segmentKey(0), JSON.stringify([expired, unexpired[0]]));
+      localStorage.setItem(segmentKey(1), JSON.stringify(unexpired.slice(1)));
+
+      //* act
+      const store = useTtlStore();
+
+      //* assert
+      expect(store[LIST_STATE_KEY]).toEqual(['b', 'c', 'd']);
+      expect(onExpire).toHaveBeenCalledWith(LIST_STATE_KEY);
+      expect(localStorage.getItem(segmentKey(0))).toEqual(JSON.stringify(unexpired.slice(0, 2)));
+      expect(localStorage.getItem(segmentKey(1))).toEqual(JSON.stringify(unexpired.slice(2)));
+      expect(readLocalStoage(LIST_PERSIST_KEY)).toEqual({ length: 3, segmentSize: 2 });
+    });
+  });
+
+  describe('w/ Map and Set states', () => {
+    const MAP_STATE_KEY = 'nodes';
+    const MAP_PERSIST_KEY = getPersistKey(STORE_ID, MAP_STATE_KEY);
+
+    const useStore = defineStore(STORE_ID, {
+      state: () => ({
+        [MAP_STATE_KEY]: new Map<string, unknown>(),
+        tags: new Set<string>(),
+        dict: new Map<string, number>(),
+      }),
+      cnPersist: { states: { [MAP_STATE_KEY]: { policy: 'HASH' }, tags: {}, dict: {} } },
+    });
+
+    it('persists Map entries on set and delete without actions', () => {
+      //* arrange
+      const store = useStore();
+
+      //* act
+      store[MAP_STATE_KEY].set('a', STATE_VALUE);
+      store[MAP_STATE_KEY].set('b', STATE_VALUE);
+      store[MAP_STATE_KEY].delete('a');
+
+      //* assert
+      expect(localStorage.getItem(getPersistHashKey(MAP_PERSIST_KEY, 'a'))).toBeUndefined();
+      expect(readLocalStoage(getPersistHashKey(MAP_PERSIST_KEY, 'b'))).toEqual(STATE_VALUE);
+      expect(readLocalStoage(MAP_PERSIST_KEY)).toEqual(['b']);
+    });
+
+    it('keeps intercepting a replaced Map', async () => {
+      //* arrange
+      const store = useStore();
+      store[MAP_STATE_KEY] = new Map();
+      await nextTick();
+
+      //* act
+      store[MAP_STATE_KEY].set('c', STATE_VALUE);
+
+      //* assert
+      expect(readLocalStoage(getPersistHashKey(MAP_PERSIST_KEY, 'c'))).toEqual(STATE_VALUE);
+      expect(readLocalStoage(MAP_PERSIST_KEY)).toEqual(['c']);
+    });
+
+    it('persists Set and Map STRING states as arrays', async () => {
+      //* arrange
+      const store = useStore();
+
+      //* act
+      store.tags.add('x');
+      store.dict.set('y', 1);
+      await nextTick();
+
+      //* assert
+      expect(readLocalStoage(getPersistKey(STORE_ID, 'tags'))).toEqual(['x']);
+      expect(readLocalStoage(getPersistKey(STORE_ID, 'dict'))).toEqual([['y', 1]]);
+    });
+
+    it('rehydrates Map and Set instances', () => {
+      //* arrange
+      initializeLocalStorage(
+        { persistKey: MAP_PERSIST_KEY, value: ['a'] },
+        { persistKey: getPersistHashKey(MAP_PERSIST_KEY, 'a'), value: STATE_VALUE },
+        { persistKey: getPersistKey(STORE_ID, 'tags'), value: ['x'] },
+        { persistKey: getPersistKey(STORE_ID, 'dict'), value: [['y', 1]] },
+      );
+
+      //* act
+      const store = useStore();
+      store[MAP_STATE_KEY].set('b', STATE_VALUE);
+
+      //* assert
+      expect(store[MAP_STATE_KEY]).toEqual(
+        new Map([
+          ['a', STATE_VALUE],
+          ['b', STATE_VALUE],
+        ]),
+      );
+      expect(store.tags).toEqual(new Set(['x']));
+      expect(store.dict).toEqual(new Map([['y', 1]]));
+      expect(readLocalStoage(MAP_PERSIST_KEY)).toEqual(['a', 'b']);
+    });
+
+    it('does not persist a Map cleared while an entry is being restored', () => {
+      //* arrange
+      const store = defineStore(STORE_ID, {
+        state: () => ({ [MAP_STATE_KEY]: new Map<string, unknown>() }),
+        cnPersist: { crossTab: true, states: { [MAP_STATE_KEY]: { policy: 'HASH' } } },
+      })();
+      store[MAP_STATE_KEY].set('a', STATE_VALUE);
+      watch(
+        () => store[MAP_STATE_KEY].has('reset'),
+        reset => reset && store[MAP_STATE_KEY].clear(),
+        { flush: 'sync' },
+      );
+
+      //* act
+      window.dispatchEvent(
+        new StorageEvent('storage', {
+          key: getPersistHashKey(MAP_PERSIST_KEY, 'reset'),
+          newValue: JSON.stringify(STATE_VALUE),
+        }),
+      );
+
+      //* assert
+      expect(store[MAP_STATE_KEY].size).toBe(0);
+      expect(readLocalStoage(getPersistHashKey(MAP_PERSIST_KEY, 'a'))).toEqual(STATE_VALUE);
+      expect(readLocalStoage(MAP_PERSIST_KEY)).toEqual(['a']);
+    });
+  });
+
+  describe('w/ autoHash', () => {
+    const HASH_STATE_KEY = 'nodes';
+    const HASH_PERSIST_KEY = getPersistKey(STORE_ID, HASH_STATE_KEY);
+
+    const useStore = defineStore(STORE_ID, {
+      state: () => ({ [HASH_STATE_KEY]: {} as Record<string, { name: string }> }),
+      cnPersist: { states: { [HASH_STATE_KEY]: { policy: 'HASH', autoHash: true } } },
+    });
+
+    it('persists added, replaced and removed entries of plain assignments', async () => {
+      //* arrange
+      const store = useStore();
+      store[HASH_STATE_KEY].a = STATE_VALUE;
+      store[HASH_STATE_KEY].b = STATE_VALUE;
+      await nextTick();
+      vi.mocked(localStorage.setItem).mockClear();
+
+      //* act
+      store[HASH_STATE_KEY].a = { name: 'dolor' };
+      delete store[HASH_STATE_KEY].b;
+      await nextTick();
+
+      //* assert
+      expect(readLocalStoage(getPersistHashKey(HASH_PERSIST_KEY, 'a'))).toEqual({ name: 'dolor' });
+      expect(localStorage.getItem(getPersistHashKey(HASH_PERSIST_KEY, 'b'))).toBeUndefined();
+      expect(readLocalStoage(HASH_PERSIST_KEY)).toEqual(['a']);
+      // 只重写了被替换的 Entry
+      const writtenKeys = vi.mocked(localStorage.setItem).mock.calls.map(([key]) => key);
+      expect(writtenKeys.filter(key => key != HASH_PERSIST_KEY)).toEqual([getPersistHashKey(HASH_PERSIST_KEY, 'a')]);
+    });
+
+    it('persists entries changed through $patch', async () => {
+      //* arrange
+      const store = useStore();
+
+      //* act
+      store.$patch(state => {
+        state[HASH_STATE_KEY].c = STATE_VALUE;
+      });
+      await nextTick();
+
+      //* assert
+      expect(readLocalStoage(getPersistHashKey(HASH_PERSIST_KEY, 'c'))).toEqual(STATE_VALUE);
+      expect(readLocalStoage(HASH_PERSIST_KEY)).toEqual(['c']);
+    });
+
+    it('does not persist rehydrated entries again', async () => {
+      //* arrange
+      initializeLocalStorage(
+        { persistKey: HASH_PERSIST_KEY, value: ['a'] },
+        { persistKey: getPersistHashKey(HASH_PERSIST_KEY, 'a'), value: STATE_VALUE },
+      );
+      vi.mocked(localStorage.setItem).mockClear();
+
+      //* act
+      const store = useStore();
+      await nextTick();
+
+      //* assert
+      expect(store[HASH_STATE_KEY]).toEqual({ a: STATE_VALUE });
+      expect(localStorage.setItem).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('w/ debounce', () => {
+    beforeEach(() => {
+      const pinia = createPinia();
+      pinia.use(createCnPersistPiniaPlugin({ globalDebounce: 100, globalMaxWait: 250 }));
+      createApp({}).use(pinia);
+      setActivePinia(pinia);
+    });
+
+    it('persists continuous changes after maxWait', async () => {
+      //* arrange
+      vi.useFakeTimers();
+      const useStore = defineStore(STORE_ID, {
+        state: () => ({ [STATE_KEY]: 0 }),
+        cnPersist: true,
+      });
+      const store = useStore();
+      await nextTick();
+      vi.runAllTimers();
+      localStorage.clear();
+
+      //* act
+      for (let i = 1; i <= 5; i++) {
+        store[STATE_KEY] = i;
+        await nextTick();
+        vi.advanceTimersByTime(50);
+      }
+      const persistedValue = localStorage.getItem(PERSIST_KEY);
+      vi.useRealTimers();
+
+      //* assert
+      expect(persistedValue).toEqual('5');
+    });
+
+    it('overrides the global debounce per store and per state', async () => {
+      //* arrange
+      const useStore = defineStore(STORE_ID, {
+        state: () => ({ token: '', draft: '', content: '' }),
+        cnPersist: { debounce: 60_000, states: { token: { debounce: 0 }, draft: {}, content: {} } },
+      });
+      const store = useStore();
+      localStorage.clear();
+
+      //* act
+      store.token = 'lorem';
+      store.draft = 'ipsum';
+      await nextTick();
+
+      //* assert
+      expect(localStorage.getItem(getPersistKey(STORE_ID, 'token'))).toEqual(JSON.stringify('lorem'));
+      expect(localStorage.getItem(getPersistKey(STORE_ID, 'draft'))).toBeUndefined();
+      await store.$flush();
+      expect(localStorage.getItem(getPersistKey(STORE_ID, 'draft'))).toEqual(JSON.stringify('ipsum'));
+    });
+  });
+
+  describe('w/ hooks', () => {
+    const beforeRestore = vi.fn(ctx => {
+      ctx.store.before = 'before';
+    });
+    const afterRestore = vi.fn(ctx => {
+      ctx.store.after = 'after';
+    });
+    const useStore = defineStore(STORE_ID, {
+      state: () => ({
+        [STATE_KEY]: {},
+        before: '',
+        after: '',
+      }),
+      cnPersist: { beforeRestore, afterRestore },
+    });
+
+    it('runs hooks before and after hydration', async () => {
+      //* arrange
+      initializeLocalStorage({ persistKey: PERSIST_KEY, value: STATE_VALUE });
+
+      //* act
+      await nextTick();
+      const store = useStore();
+
+      //* assert
+      expect(store[STATE_KEY]).toEqual(STATE_VALUE);
+      expect(beforeRestore).toHaveBeenCalled();
+      expect(store.before).toEqual('before');
+      expect(afterRestore).toHaveBeenCalled();
+      expect(store.after).toEqual('after');
+    });
+  });
+
+  describe('w/ serializer', () => {
+    it('accepts unary serializers and serializers with the context parameter', () => {
+      //* assert
+      expectTypeOf(JSON.stringify).toMatchTypeOf<CnStateSerializer>();
+      expectTypeOf(String).toMatchTypeOf<CnStateSerializer>();
+      expectTypeOf<(newValue: unknown) => string>().toMatchTypeOf<CnStateSerializer>();
+      expectTypeOf<(newValue: unknown, context: CnSerializeContext) => string>().toMatchTypeOf<CnStateSerializer>();
+      expectTypeOf<(newValue: unknown, context: string) => string>().not.toMatchTypeOf<CnStateSerializer>();
+    });
+
+    it('deserializes', async () => {
+      //* arrange
+      initializeLocalStorage({ persistKey: PERSIST_KEY, value: STATE_VALUE });
+      const deserialize = vi.fn(JSON.parse);
+      const useStore = defineStore(STORE_ID, {
+        state: () => ({ [STATE_KEY]: {} }),
+        cnPersist: {
+          states: {
+            [STATE_KEY]: {
+              serialize: JSON.stringify,
+              deserialize,
+            },
+          },
+        },
+      });
+
+      //* act
+      await nextTick();
+      useStore();
+
+      //* assert
+      expect(deserialize).toHaveBeenCalledWith(localStorage.getItem(PERSIST_KEY));
+      expect(deserialize).toHaveReturnedWith(STATE_VALUE);
+    });
+
+    it('serializes', async () => {
+      //* arrange
+      const serialize = vi.fn((value: unknown) => JSON.stringify(value));
+      const useStore = defineStore(STORE_ID, {
+        state: () => ({ [STATE_KEY]: STATE_VALUE }),
+        cnPersist: {
+          states: {
+            [STATE_KEY]: {
+              serialize,
+              deserialize: JSON.parse,
+            },
+          },
+        },
+      });
+      const store = useStore();
+
+      //* act
+      const NEW_VALUE = { name: 'dolor' };
+      store[STATE_KEY] = NEW_VALUE;
+      await nextTick();
+
+      //* assert
+      expect(serialize).toHaveBeenCalledWith(NEW_VALUE, expect.objectContaining({ stateKey: STATE_KEY }));
+      expect(serialize).toHaveReturnedWith(localStorage.getItem(PERSIST_KEY));
+    });
+
+    it('passes the old value and event metadata as this', async () => {
+      //* arrange
+      const contexts: Array<CnSerializeContext> = [];
+      const useStore = defineStore(STORE_ID, {
+        state: () => ({ count: 0 }),
+        cnPersist: {
+          states: {
+            count: {
+              serialize(newValue) {
+                contexts.push({ ...this });
+                // 值没有变化时不持久化
+                return newValue === this.oldValue ? null : JSON.stringify(newValue);
+              },
+            },
+          },
+        },
+      });
+      const store = useStore();
+      await nextTick();
+      localStorage.clear();
+      contexts.length = 0;
+
+      //* act
+      store.count = 1;
+      await nextTick();
+
+      //* assert
+      expect(contexts).toEqual([{ stateKey: 'count', type: 'STRING', oldValue: 0, oldPersistedValue: '0' }]);
+      expect(localStorage.getItem(getPersistKey(STORE_ID, 'count'))).toEqual('1');
+    });
+
+    it('passes the last persisted entry value as the old value of HASH entries', () => {
+      //* arrange
+      const HASH_STATE_KEY = 'nodes';
+      const HASH_PERSIST_KEY = getPersistKey(STORE_ID, HASH_STATE_KEY);
+      initializeLocalStorage(
+        { persistKey: HASH_PERSIST_KEY, value: ['a'] },
+        { persistKey: getPersistHashKey(HASH_PERSIST_KEY, 'a'), value: 'x' },
+      );
+      const contexts: Array<CnSerializeContext> = [];
+      const useStore = defineStore(STORE_ID, {
+        state: () => ({ [HASH_STATE_KEY]: {} as Record<string, string> }),
+        actions: {
+          hsetAndPersistNodes(key: string, value: string) {
+            this[HASH_STATE_KEY][key] = value;
+          },
+        },
+        cnPersist: {
+          states: {
+            [HASH_STATE_KEY]: {
+              policy: 'HASH',
+              serialize(newValue) {
+                contexts.push({ ...this });
+                return JSON.stringify(newValue);
+              },
+            },
+          },
+        },
+      });
+      const store = useStore();
+
+      //* act
+      store.hsetAndPersistNodes('a', 'y');
+      store.hsetAndPersistNodes('a', 'z');
+
+      //* assert
+      expect(contexts).toEqual([
+        { stateKey: HASH_STATE_KEY, type: 'HASH', hashKey: 'a', oldValue: 'x' },
+        { stateKey: HASH_STATE_KEY, type: 'HASH', hashKey: 'a', oldValue: 'y', oldPersistedValue: '"y"' },
+      ]);
+    });
+
+    it('passes the context as the second parameter and the last persisted string of in-place mutations', async () => {
+      //* arrange
+      const contexts: Array<CnSerializeContext> = [];
+      const useStore = defineStore(STORE_ID, {
+        state: () => ({ [STATE_KEY]: { name: 'ipsum' } }),
+        cnPersist: {
+          states: {
+            [STATE_KEY]: {
+              serialize: (newValue, context) => {
+                contexts.push({ ...context });
+                const persistValue = JSON.stringify(newValue);
+                // 值没有变化时不持久化
+                return persistValue === context.oldPersistedValue ? null : persistValue;
+              },
+            },
+          },
+        },
+      });
+      const store = useStore();
+      await nextTick();
+      contexts.length = 0;
+
+      //* act
+      store[STATE_KEY].name = 'dolor';
+      await nextTick();
+      store[STATE_KEY] = { name: 'dolor' };
+      await nextTick();
+
+      //* assert
+      expect(contexts.map(({ oldPersistedValue }) => oldPersistedValue)).toEqual([
+        '{"name":"ipsum"}',
+        '{"name":"dolor"}',
+      ]);
+      // 原地修改时旧值与新值是同一个对象
+      expect(contexts[0].oldValue).toEqual({ name: 'dolor' });
+      expect(localStorage.getItem(PERSIST_KEY)).toEqual('{"name":"dolor"}');
+    });
+
+    it('passes the last persisted string of in-place mutated HASH entries', () => {
+      //* arrange
+      const HASH_STATE_KEY = 'nodes';
+      const contexts: Array<CnSerializeContext> = [];
+      const useStore = defineStore(STORE_ID, {
+        state: () => ({ [HASH_STATE_KEY]: {} as Record<string, { name: string }> }),
+        actions: {
+          hsetAndPersistNodes(key: string, node: { name: string }) {
+            this[HASH_STATE_KEY][key] = node;
+          },
+        },
+        cnPersist: {
+          states: {
+            [HASH_STATE_KEY]: {
+              policy: 'HASH',
+              serialize: (newValue, context) => {
+                contexts.push({ ...context });
+                return JSON.stringify(newValue);
+              },
+            },
+          },
+        },
+      });
+      const store = useStore();
+
+      //* act
+      const node = { name: 'ipsum' };
+      store.hsetAndPersistNodes('a', node);
+      node.name = 'dolor';
+      store.hsetAndPersistNodes('a', node);
+
+      //* assert
+      expect(contexts.map(({ hashKey, oldPersistedValue }) => [hashKey, oldPersistedValue])).toEqual([
+        ['a', undefined],
+        ['a', '{"name":"ipsum"}'],
+      ]);
+    });
+
+    it('persists falsy values with the default serializer', async () => {
+      //* arrange
+      const useStore = defineStore(STORE_ID, {
+        state: () => ({ count: 1, enabled: true, text: 'x' }),
+        cnPersist: true,
+      });
+      const store = useStore();
+
+      //* act
+      store.count = 0;
+      store.enabled = false;
+      store.text = '';
+      await nextTick();
+
+      //* assert
+      expect(localStorage.getItem(getPersistKey(STORE_ID, 'count'))).toEqual('0');
+      expect(localStorage.getItem(getPersistKey(STORE_ID, 'enabled'))).toEqual('false');
+      expect(localStorage.getItem(getPersistKey(STORE_ID, 'text'))).toEqual('""');
+    });
+
+    it('rehydrates falsy values with the default serializer', async () => {
+      //* arrange
+      initializeLocalStorage(
+        { persistKey: getPersistKey(STORE_ID, 'count'), value: 0 },
+        { persistKey: getPersistKey(STORE_ID, 'enabled'), value: false },
+      );
+      const useStore = defineStore(STORE_ID, {
+        state: () => ({ count: 1, enabled: true }),
+        cnPersist: true,
+      });
+
+      //* act
+      await nextTick();
+      const store = useStore();
+
+      //* assert
+      expect(store.count).toEqual(0);
+      expect(store.enabled).toEqual(false);
+    });
+
+    it('round-trips Date and BigInt with the rich serializer', async () => {
+      //* arrange
+      const useStore = defineStore(STORE_ID, {
+        state: () => ({ createdAt: new Date(0), total: BigInt(0) }),
+        cnPersist: { serializer: 'rich' },
+      });
+      const store = useStore();
+      const DATE = new Date('2024-01-01T00:00:00.000Z');
+      store.createdAt = DATE;
+      store.total = BigInt('9007199254740993');
+      await nextTick();
+      const pinia = createPinia();
+      pinia.use(createCnPersistPiniaPlugin({ globalDebounce: 0 }));
+      createApp({}).use(pinia);
+      setActivePinia(pinia);
+
+      //* act
+      const rehydratedStore = useStore();
+
+      //* assert
+      expect(rehydratedStore.createdAt).toBeInstanceOf(Date);
+      expect(rehydratedStore.createdAt.getTime()).toEqual(DATE.getTime());
+      expect(rehydratedStore.total).toEqual(BigInt('9007199254740993'));
+    });
+
+    it('prefers the serializer of the state', async () => {
+      //* arrange
+      const useStore = defineStore(STORE_ID, {
+        state: () => ({ [STATE_KEY]: new Date(0) }),
+        cnPersist: { serializer: 'rich', states: { [STATE_KEY]: { serializer: 'json' } } },
+      });
+      const store = useStore();
+
+      //* act
+      store[STATE_KEY] = new Date('2024-01-01T00:00:00.000Z');
+      await nextTick();
+
+      //* assert
+      expect(readLocalStoage(PERSIST_KEY)).toEqual('2024-01-01T00:00:00.000Z');
+    });
+  });
+
+  describe('w/ debug', () => {
+    it('error logs creation errors (storage permissions)', () => {
+      //* arrange
+      const error = new Error('access_denied');
+      /**
+       * get 表示，当代码尝试获取 localStorage 属性时，抛出错误
+       */
+      Object.defineProperty(window, 'localStorage', {
+        get: () => {
+          throw error;
+        },
+      });
+      const spy = vi.spyOn(globalThis.console, 'error').mockImplementationOnce(() => {});
+      const useStore = defineStore(STORE_ID, {
+        state: () => ({ [STATE_KEY]: {} }),
+        cnPersist: {
+          debug: true,
+        },
+      });
+
+      //* act
+      useStore();
+
+      //* assert
+      expect(spy).toHaveBeenCalledWith('[cn-persist-pinia-plugin] produceStatePersistContext', error);
+    });
+
+    it('error logs hydration errors', () => {
+      //* arrange
+      const error = new Error('failed_hydration');
+      const spy = vi.spyOn(globalThis.console, 'error').mockImplementationOnce(() => {});
+      const useStore = defineStore(STORE_ID, {
+        state: () => ({ [STATE_KEY]: {} }),
+        cnPersist: {
+          storage: {
+            getItem: () => {
+              throw error;
+            },
+            setItem: localStorage.setItem,
+            removeItem: localStorage.removeItem,
+          },
+          debug: true,
+        },
+      });
+
+      //* act
+      useStore();
+
+      //* assert
+      expect(spy).toHaveBeenCalledWith(`[cn-persist-pinia-plugin] StorageLike.getItem('${PERSIST_KEY}')`, error);
+    });
+
+    it('error logs persistence errors', async () => {
+      //* arrange
+      const error = new Error('failed_persistence');
+      const spy = vi.spyOn(globalThis.console, 'error').mockImplementationOnce(() => {});
+      const useStore = defineStore(STORE_ID, {
+        state: () => ({ [STATE_KEY]: {} }),
+        cnPersist: {
+          storage: {
+            getItem: localStorage.getItem,
+            setItem: () => {
+              throw error;
+            },
+            removeItem: localStorage.removeItem,
+          },
+          debug: true,
+        },
+      });
+
+      //* act
+      const store = useStore();
+      store[STATE_KEY] = STATE_VALUE;
+      await nextTick();
+
+      //* assert
+      expect(spy).toHaveBeenCalledWith(
+        `[cn-persist-pinia-plugin] StorageLike.setItem('${PERSIST_KEY}', '${JSON.stringify(STATE_VALUE)}')`,
+        error,
+      );
+    });
+  });
+
+  describe('multiple persistences', () => {
+    let stored1: Record<string, string>;
+    const storage1 = {
+      getItem: vi.fn(key => stored1[key]),
+      setItem: vi.fn((key, value) => {
+        stored1[key] = value;
+      }),
+      removeItem: localStorage.removeItem,
+    };
+    let stored2: Record<string, string>;
+    const storage2 = {
+      getItem: vi.fn(key => stored2[key]),
+      setItem: vi.fn((key, value) => {
+        stored2[key] = value;
+      }),
+      removeItem: localStorage.removeItem,
+    };
+
+    const useStore = defineStore(STORE_ID, {
+      state: () => ({
+        s1: '',
+        s2: '',
+      }),
+      cnPersist: {
+        states: { s1: { storage: storage1 }, s2: { storage: storage2 } },
+      },
+    });
+
+    it('persists to different storages', async () => {
+      stored1 = {};
+      stored2 = {};
+      const store = useStore();
+
+      store.s1 = 'lorem';
+      store.s2 = 'ipsum';
+      await nextTick();
+
+      const persistKey1 = getPersistKey(STORE_ID, 's1');
+      const persistKey2 = getPersistKey(STORE_ID, 's2');
+      const persistValue1 = JSON.stringify('lorem');
+      const persistValue2 = JSON.stringify('ipsum');
+
+      expect(stored1[persistKey1]).toEqual(persistValue1);
+      expect(stored2[persistKey2]).toEqual(persistValue2);
+      expect(storage1.setItem).toHaveBeenCalledWith(persistKey1, persistValue1);
+      expect(storage2.setItem).toHaveBeenCalledWith(persistKey2, persistValue2);
+    });
+
+    // it('rehydrates from different storages', () => {})
+  });
+
+  describe('$hydrate', () => {
+    const beforeRestore = vi.fn();
+    const afterRestore = vi.fn();
+    const useStore = defineStore(STORE_ID, {
+      state: () => ({ [STATE_KEY]: {} }),
       cnPersist: { beforeRestore, afterRestore },
     });
 
@@ -620,4 +1933,467 @@ describe('default', () => {
       expect(readLocalStoage(PERSIST_KEY)).toEqual(STATE_VALUE);
     });
   });
+
+  describe('$flush', () => {
+    const NEW_VALUE = { name: 'dolor' };
+
+    const useStore = defineStore(STORE_ID, {
+      state: () => ({ [STATE_KEY]: STATE_VALUE }),
+      cnPersist: true,
+    });
+
+    beforeEach(() => {
+      // 防抖延迟足够长，测试期间不会自动持久化
+      const pinia = createPinia();
+      pinia.use(createCnPersistPiniaPlugin({ globalDebounce: 60_000 }));
+      createApp({}).use(pinia);
+      setActivePinia(pinia);
+    });
+
+    it('persists pending changes without waiting for the debounce', async () => {
+      //* arrange
+      const store = useStore();
+      store[STATE_KEY] = NEW_VALUE;
+      await nextTick();
+      expect(readLocalStoage(PERSIST_KEY)).toBeNull();
+
+      //* act
+      await store.$flush();
+
+      //* assert
+      expect(readLocalStoage(PERSIST_KEY)).toEqual(NEW_VALUE);
+    });
+
+    it('persists pending changes of all stores on flushCnPersist', async () => {
+      //* arrange
+      const store = useStore();
+      store[STATE_KEY] = NEW_VALUE;
+      await nextTick();
+
+      //* act
+      await flushCnPersist();
+
+      //* assert
+      expect(readLocalStoage(PERSIST_KEY)).toEqual(NEW_VALUE);
+    });
+
+    it('persists pending changes when the store is disposed', async () => {
+      //* arrange
+      const store = useStore();
+      store[STATE_KEY] = NEW_VALUE;
+      await nextTick();
+
+      //* act
+      store.$dispose();
+
+      //* assert
+      expect(readLocalStoage(PERSIST_KEY)).toEqual(NEW_VALUE);
+    });
+
+    it('persists pending changes when the page is hidden', async () => {
+      //* arrange
+      const store = useStore();
+      store[STATE_KEY] = NEW_VALUE;
+      await nextTick();
+
+      //* act
+      window.dispatchEvent(new Event('pagehide'));
+
+      //* assert
+      expect(readLocalStoage(PERSIST_KEY)).toEqual(NEW_VALUE);
+    });
+  });
+});
+
+describe('multiple pinia instances', () => {
+  const NEW_VALUE = { name: 'dolor' };
+
+  const usePinia = (globalDebounce: number) => {
+    const pinia = createPinia();
+    pinia.use(createCnPersistPiniaPlugin({ globalDebounce }));
+    createApp({}).use(pinia);
+    return pinia;
+  };
+
+  it('keeps the debounce of each plugin instance', async () => {
+    //* arrange
+    const useStore = defineStore(STORE_ID, {
+      state: () => ({ [STATE_KEY]: STATE_VALUE }),
+      cnPersist: { key: 'immediate' },
+    });
+    const useDebouncedStore = defineStore('debounced-store', {
+      state: () => ({ [STATE_KEY]: STATE_VALUE }),
+      cnPersist: { key: 'debounced' },
+    });
+    const debouncedPinia = usePinia(60_000);
+    const pinia = usePinia(0);
+    const debouncedStore = useDebouncedStore(debouncedPinia);
+    const store = useStore(pinia);
+    await nextTick();
+
+    //* act
+    debouncedStore[STATE_KEY] = NEW_VALUE;
+    store[STATE_KEY] = NEW_VALUE;
+    await nextTick();
+
+    //* assert
+    expect(readLocalStoage(getPersistKey('immediate', STATE_KEY))).toEqual(NEW_VALUE);
+    expect(readLocalStoage(getPersistKey('debounced', STATE_KEY))).toBeNull();
+    await debouncedStore.$flush();
+    expect(readLocalStoage(getPersistKey('debounced', STATE_KEY))).toEqual(NEW_VALUE);
+  });
+
+  it('logs storage errors by the debug option of each store', async () => {
+    //* arrange
+    const error = new Error('failed_persistence');
+    const storage = {
+      getItem: () => null,
+      setItem: () => {
+        throw error;
+      },
+      removeItem: () => {},
+    };
+    const useStore = defineStore(STORE_ID, {
+      state: () => ({ [STATE_KEY]: null as unknown }),
+      cnPersist: { storage, debug: true },
+    });
+    const useQuietStore = defineStore('quiet-store', {
+      state: () => ({ [STATE_KEY]: null as unknown }),
+      cnPersist: { storage, debug: false },
+    });
+    const store = useStore(usePinia(0));
+    // 后创建的 store 不会覆盖先创建的 store 的 debug 配置
+    const quietStore = useQuietStore(usePinia(0));
+    const spy = vi.spyOn(globalThis.console, 'error').mockImplementation(() => {});
+
+    //* act
+    quietStore[STATE_KEY] = NEW_VALUE;
+    await nextTick();
+    expect(spy).not.toHaveBeenCalled();
+    store[STATE_KEY] = NEW_VALUE;
+    await nextTick();
+
+    //* assert
+    expect(spy).toHaveBeenCalledTimes(1);
+    expect(spy).toHaveBeenCalledWith(
+      `[cn-persist-pinia-plugin] StorageLike.setItem('${PERSIST_KEY}', '${JSON.stringify(NEW_VALUE)}')`,
+      error,
+    );
+    spy.mockRestore();
+  });
+});
+
+describe('observability', () => {
+  const NEW_VALUE = { name: 'dolor' };
+
+  const usePlugin = (factoryOptions: CnPersistFactoryOptions) => {
+    const pinia = createPinia();
+    pinia.use(createCnPersistPiniaPlugin({ globalDebounce: 0, ...factoryOptions }));
+    createApp({}).use(pinia);
+    setActivePinia(pinia);
+    return pinia;
+  };
+
+  beforeEach(() => {
+    resetCnPersistStats();
+  });
+
+  it('calls global and store hooks around persistence', async () => {
+    //* arrange
+    const calls: Array<string> = [];
+    const onPersisted = vi.fn(() => calls.push('global'));
+    usePlugin({ onBeforePersist: () => calls.push('before'), onPersisted });
+    const useStore = defineStore(STORE_ID, {
+      state: () => ({ [STATE_KEY]: null as unknown }),
+      cnPersist: { onPersisted: () => calls.push('store') },
+    });
+    const store = useStore();
+
+    //* act
+    store[STATE_KEY] = NEW_VALUE;
+    await nextTick();
+
+    //* assert
+    expect(calls).toEqual(['before', 'global', 'store']);
+    expect(onPersisted).toHaveBeenCalledWith({
+      storeId: STORE_ID,
+      stateKey: STATE_KEY,
+      persistKey: PERSIST_KEY,
+      type: 'STRING',
+      size: JSON.stringify(NEW_VALUE).length,
+      duration: expect.any(Number),
+    });
+  });
+
+  it('reports serializer errors through onPersistError', async () => {
+    //* arrange
+    const error = new Error('failed_serialization');
+    const onPersisted = vi.fn();
+    const onPersistError = vi.fn();
+    usePlugin({ onPersisted, onPersistError });
+    const useStore = defineStore(STORE_ID, {
+      state: () => ({ [STATE_KEY]: null as unknown }),
+      cnPersist: {
+        states: {
+          [STATE_KEY]: {
+            serialize: () => {
+              throw error;
+            },
+          },
+        },
+      },
+    });
+    const store = useStore();
+
+    //* act
+    store[STATE_KEY] = NEW_VALUE;
+    await nextTick();
+
+    //* assert
+    expect(onPersisted).not.toHaveBeenCalled();
+    expect(onPersistError).toHaveBeenCalledWith(error, PERSIST_KEY, expect.objectContaining({ type: 'STRING' }));
+  });
+
+  it('calls restore hooks', () => {
+    //* arrange
+    initializeLocalStorage({ persistKey: PERSIST_KEY, value: STATE_VALUE });
+    localStorage.setItem(getPersistKey('broken-store', STATE_KEY), '{');
+    const onRestored = vi.fn();
+    const onRestoreError = vi.fn();
+    usePlugin({ onRestored, onRestoreError });
+    const useStore = defineStore(STORE_ID, {
+      state: () => ({ [STATE_KEY]: {} }),
+      cnPersist: true,
+    });
+    const useBrokenStore = defineStore('broken-store', {
+      state: () => ({ [STATE_KEY]: {} }),
+      cnPersist: true,
+    });
+
+    //* act
+    const store = useStore();
+    useBrokenStore();
+
+    //* assert
+    expect(store[STATE_KEY]).toEqual(STATE_VALUE);
+    expect(onRestored).toHaveBeenCalledWith(
+      expect.objectContaining({ persistKey: PERSIST_KEY, size: JSON.stringify(STATE_VALUE).length }),
+    );
+    expect(onRestoreError).toHaveBeenCalledWith(
+      expect.any(SyntaxError),
+      getPersistKey('broken-store', STATE_KEY),
+      expect.objectContaining({ storeId: 'broken-store', type: 'STRING' }),
+    );
+  });
+
+  it('reports persistence stats', async () => {
+    //* arrange
+    usePlugin({});
+    const useStore = defineStore(STORE_ID, {
+      state: () => ({ [STATE_KEY]: null as unknown, skipped: 0 }),
+      cnPersist: { states: { [STATE_KEY]: {}, skipped: { serialize: () => null } } },
+    });
+    const store = useStore();
+
+    //* act
+    store[STATE_KEY] = NEW_VALUE;
+    store.skipped = 1;
+    await nextTick();
+
+    //* assert
+    const size = JSON.stringify(NEW_VALUE).length;
+    const stats = getCnPersistStats();
+    // skipped 的初始值 0 在初始化时也会被持久化，同样被序列化器跳过
+    expect(stats).toMatchObject({ writes: 1, bytes: size, skipped: 2, errors: 0 });
+    expect(stats.stores[STORE_ID].states).toEqual({
+      [STATE_KEY]: { writes: 1, bytes: size, skipped: 0, errors: 0 },
+      skipped: { writes: 0, bytes: 0, skipped: 2, errors: 0 },
+    });
+    expect(stats.lastFlushTime).toEqual(expect.any(Number));
+  });
+
+  it('keeps the stats of each plugin instance apart', async () => {
+    //* arrange
+    const useStore = defineStore(STORE_ID, { state: () => ({ [STATE_KEY]: null as unknown }), cnPersist: true });
+    const pinia1 = usePlugin({});
+    const store1 = useStore();
+    const pinia2 = usePlugin({});
+    const store2 = useStore();
+
+    //* act
+    store1[STATE_KEY] = NEW_VALUE;
+    await nextTick();
+    store2[STATE_KEY] = NEW_VALUE;
+    store2[STATE_KEY] = { ...NEW_VALUE };
+    await nextTick();
+    resetCnPersistStats(pinia1);
+
+    //* assert
+    const size = JSON.stringify(NEW_VALUE).length;
+    expect(getCnPersistStats(pinia1)).toEqual({
+      writes: 0,
+      bytes: 0,
+      skipped: 0,
+      errors: 0,
+      lastFlushTime: null,
+      stores: {},
+    });
+    expect(getCnPersistStats(pinia2).stores[STORE_ID]).toMatchObject({ writes: 1, bytes: size });
+    expect(getCnPersistStats(createPinia())).toMatchObject({ writes: 0, stores: {} });
+    expect(getCnPersistStats().stores[STORE_ID]).toMatchObject({ writes: 2, bytes: size * 2 });
+  });
+});
+
+describe('clear persisted data', () => {
+  const HASH_STATE_KEY = 'nodes';
+  const HASH_PERSIST_KEY = getPersistKey(STORE_ID, HASH_STATE_KEY);
+  const NEW_VALUE = { name: 'dolor' };
+
+  const usePlugin = (factoryOptions: CnPersistFactoryOptions = {}) => {
+    const pinia = createPinia();
+    pinia.use(createCnPersistPiniaPlugin({ globalDebounce: 0, ...factoryOptions }));
+    const app = createApp({}).use(pinia);
+    setActivePinia(pinia);
+    return app;
+  };
+
+  const useStore = defineStore(STORE_ID, {
+    state: () => ({
+      [STATE_KEY]: null as unknown,
+      [HASH_STATE_KEY]: {} as Record<string, unknown>,
+    }),
+    actions: {
+      hsetAndPersistNodes(key: string, value: unknown) {
+        this[HASH_STATE_KEY][key] = value;
+      },
+    },
+    cnPersist: { states: { [STATE_KEY]: {}, [HASH_STATE_KEY]: { policy: 'HASH' } } },
+  });
+
+  it('removes STRING keys, HASH index and entries of the store', async () => {
+    //* arrange
+    usePlugin();
+    const store = useStore();
+    store[STATE_KEY] = NEW_VALUE;
+    store.hsetAndPersistNodes('a', 1);
+    store.hsetAndPersistNodes('b', 2);
+    await nextTick();
+
+    //* act
+    await store.$clearPersisted();
+
+    //* assert
+    expect(localStorage.getItem(PERSIST_KEY)).toBeUndefined();
+    expect(localStorage.getItem(HASH_PERSIST_KEY)).toBeUndefined();
+    expect(localStorage.getItem(getPersistHashKey(HASH_PERSIST_KEY, 'a'))).toBeUndefined();
+    expect(localStorage.getItem(getPersistHashKey(HASH_PERSIST_KEY, 'b'))).toBeUndefined();
+    expect(store[STATE_KEY]).toEqual(NEW_VALUE);
+    expect(store[HASH_STATE_KEY]).toEqual({ a: 1, b: 2 });
+  });
+
+  it('removes only the given states and cancels their pending writes', async () => {
+    //* arrange
+    usePlugin({ globalDebounce: 100 });
+    vi.useFakeTimers();
+    const store = useStore();
+    store.hsetAndPersistNodes('a', 1);
+    await nextTick();
+    vi.advanceTimersByTime(100);
+    store[STATE_KEY] = NEW_VALUE;
+    await nextTick();
+
+    //* act
+    await store.$clearPersisted([STATE_KEY]);
+    vi.advanceTimersByTime(100);
+    vi.useRealTimers();
+
+    //* assert
+    expect(localStorage.getItem(PERSIST_KEY)).toBeUndefined();
+    expect(readLocalStoage(getPersistHashKey(HASH_PERSIST_KEY, 'a'))).toBe(1);
+  });
+
+  it('clears everything under a prefix with clearCnPersist', async () => {
+    //* arrange
+    usePlugin({ key: storeKey => `tenant-${storeKey}` });
+    const store = useStore();
+    store[STATE_KEY] = NEW_VALUE;
+    await nextTick();
+    localStorage.setItem('cn-tenant-absent-store-lorem', '{}');
+    localStorage.setItem('cn-other-lorem', '{}');
+    // 未创建的 store 的数据只能通过枚举 storage 的 key 找到
+    const storage = { ...localStorage, keys: () => ['cn-tenant-absent-store-lorem', 'cn-other-lorem'] };
+
+    //* act
+    await clearCnPersist({ prefix: 'cn-tenant-', storages: [storage] });
+
+    //* assert
+    expect(localStorage.getItem(getPersistKey(`tenant-${STORE_ID}`, STATE_KEY))).toBeUndefined();
+    expect(localStorage.getItem('cn-tenant-absent-store-lorem')).toBeUndefined();
+    expect(localStorage.getItem('cn-other-lorem')).toBe('{}');
+  });
+
+  it('releases the states of an unmounted app', async () => {
+    //* arrange
+    const app = usePlugin({ key: storeKey => `unmounted-${storeKey}` });
+    app.mount(document.createElement('div'));
+    const store = useStore();
+    store[STATE_KEY] = NEW_VALUE;
+    await nextTick();
+
+    //* act
+    app.unmount();
+    await clearCnPersist({ prefix: 'cn-unmounted-' });
+
+    //* assert
+    expect(readLocalStoage(getPersistKey(`unmounted-${STORE_ID}`, STATE_KEY))).toEqual(NEW_VALUE);
+  });
+
+  it('releases the states of a released pinia', async () => {
+    //* arrange
+    const pinia = createPinia();
+    pinia.use(createCnPersistPiniaPlugin({ globalDebounce: 0, key: storeKey => `released-${storeKey}` }));
+    createApp({}).use(pinia);
+    setActivePinia(pinia);
+    const store = useStore();
+    store[STATE_KEY] = NEW_VALUE;
+    await nextTick();
+    const registered = getRegisteredStates('cn-released-').length;
+
+    //* act
+    releaseCnPersist(pinia);
+    await clearCnPersist({ prefix: 'cn-released-' });
+
+    //* assert
+    expect(registered).toBeGreaterThan(0);
+    expect(getRegisteredStates('cn-released-')).toEqual([]);
+    expect(readLocalStoage(getPersistKey(`released-${STORE_ID}`, STATE_KEY))).toEqual(NEW_VALUE);
+  });
+});
+
+describe('w/o localStorage', () => {
+  it('skips states without storage instead of failing, e.g. during SSR', async () => {
+    //* arrange
+    vi.stubGlobal('localStorage', undefined);
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const pinia = createPinia();
+    pinia.use(createCnPersistPiniaPlugin({ globalDebounce: 0, debug: true }));
+    createApp({}).use(pinia);
+    setActivePinia(pinia);
+    const storage = { getItem: vi.fn(() => null), setItem: vi.fn(), removeItem: vi.fn() };
+    const useStore = defineStore(STORE_ID, {
+      state: () => ({ [STATE_KEY]: 'ipsum', cookie: 'dolor' }),
+      cnPersist: { states: { [STATE_KEY]: {}, cookie: { storage } } },
+    });
+
+    //* act
+    const store = useStore();
+    await nextTick();
+    vi.unstubAllGlobals();
+
+    //* assert
+    expect(store[STATE_KEY]).toBe('ipsum');
+    expect(storage.setItem).toHaveBeenCalledWith(getPersistKey(STORE_ID, 'cookie'), '"dolor"');
+    expect(consoleError).not.toHaveBeenCalled();
+    consoleError.mockRestore();
+  });
 });
@@ -0,0 +1,138 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createApp, nextTick } from 'vue';
+import { createPinia, defineStore, setActivePinia } from 'pinia';
+
+import { createCnPersistPiniaPlugin } from '../src/plugin';
+import { getPersistHashKey, getPersistKey } from '../src/util';
+import { CnPersistFactoryOptions, StorageLike } from '../src/types';
+
+const STORE_ID = 'mock-store';
+const HASH_STATE_KEY = 'nodes';
+const HASH_PERSIST_KEY = getPersistKey(STORE_ID, HASH_STATE_KEY);
+
+/**
+ * 容量有限的 storage，按照 key 与 value 的总长度计算容量，超出时抛出 QuotaExceededError
+ */
+const createLimitedStorage = (capacity: number) => {
+  const state: Record<string, string> = {};
+  const size = () => Object.entries(state).reduce((total, [key, value]) => total + key.length + value.length, 0);
+  const storage: StorageLike & { state: Record<string, string> } = {
+    state,
+    getItem: key => state[key] ?? null,
+    setItem: (key, value) => {
+      const oldSize = key in state ? key.length + state[key].length : 0;
+      if (size() - oldSize + key.length + value.length > capacity) {
+        throw new DOMException('exceeded', 'QuotaExceededError');
+      }
+      state[key] = value;
+    },
+    removeItem: key => {
+      delete state[key];
+    },
+  };
+  return storage;
+};
+
+const usePlugin = (factoryOptions: CnPersistFactoryOptions) => {
+  const app = createApp({});
+  const pinia = createPinia();
+  pinia.use(createCnPersistPiniaPlugin({ globalDebounce: 0, ...factoryOptions }));
+  app.use(pinia);
+  setActivePinia(pinia);
+};
+
+const useHashStore = defineStore(STORE_ID, {
+  state: () => ({ [HASH_STATE_KEY]: {} as Record<string, string> }),
+  actions: {
+    hsetAndPersistNodes(key: string, value: string) {
+      this[HASH_STATE_KEY][key] = value;
+    },
+  },
+  cnPersist: { states: { [HASH_STATE_KEY]: { policy: 'HASH' } } },
+});
+
+const usePriorityStore = defineStore(STORE_ID, {
+  state: () => ({ cache: '', important: '' }),
+  cnPersist: { states: { cache: {}, important: { priority: 1 } } },
+});
+
+describe('w/ quota', () => {
+  it('evicts least recently used HASH entries and retries the write', async () => {
+    //* arrange
+    const storage = createLimitedStorage(200);
+    usePlugin({ storage, quota: { policy: 'lru' } });
+    const store = useHashStore();
+    store.hsetAndPersistNodes('a', 'x'.repeat(40));
+    store.hsetAndPersistNodes('b', 'x'.repeat(40));
+    store.hsetAndPersistNodes('a', 'y'.repeat(40));
+
+    //* act
+    store.hsetAndPersistNodes('c', 'z'.repeat(40));
+    await nextTick();
+
+    //* assert
+    expect(storage.state[getPersistHashKey(HASH_PERSIST_KEY, 'b')]).toBeUndefined();
+    expect(storage.state[getPersistHashKey(HASH_PERSIST_KEY, 'a')]).toEqual(JSON.stringify('y'.repeat(40)));
+    expect(storage.state[getPersistHashKey(HASH_PERSIST_KEY, 'c')]).toEqual(JSON.stringify('z'.repeat(40)));
+    expect(JSON.parse(storage.state[HASH_PERSIST_KEY])).toEqual(['a', 'c']);
+  });
+
+  it('drops states with a lower priority', async () => {
+    //* arrange
+    const storage = createLimitedStorage(100);
+    usePlugin({ storage, quota: { policy: 'priority' } });
+    const store = usePriorityStore();
+    store.cache = 'x'.repeat(50);
+    await nextTick();
+
+    //* act
+    store.important = 'y'.repeat(50);
+    await nextTick();
+
+    //* assert
+    expect(storage.state[getPersistKey(STORE_ID, 'cache')]).toBeUndefined();
+    expect(storage.state[getPersistKey(STORE_ID, 'important')]).toEqual(JSON.stringify('y'.repeat(50)));
+  });
+
+  it('retries after a custom eviction policy released space', async () => {
+    //* arrange
+    const storage = createLimitedStorage(100);
+    storage.setItem('other', 'x'.repeat(80));
+    const policy = vi.fn(() => {
+      storage.removeItem('other');
+      return true;
+    });
+    usePlugin({ storage, quota: { policy } });
+    const store = usePriorityStore();
+
+    //* act
+    store.cache = 'x'.repeat(50);
+    await nextTick();
+
+    //* assert
+    expect(policy).toHaveBeenCalledTimes(1);
+    expect(storage.state[getPersistKey(STORE_ID, 'cache')]).toEqual(JSON.stringify('x'.repeat(50)));
+  });
+
+  it('reports unrecoverable failures through onPersistError', async () => {
+    //* arrange
+    const storage = createLimitedStorage(100);
+    const onPersistError = vi.fn();
+    usePlugin({ storage, quota: { policy: 'priority' }, onPersistError });
+    const store = usePriorityStore();
+    store.important = 'y'.repeat(50);
+    await nextTick();
+
+    //* act
+    store.cache = 'x'.repeat(50);
+    await nextTick();
+
+    //* assert
+    expect(storage.state[getPersistKey(STORE_ID, 'important')]).toEqual(JSON.stringify('y'.repeat(50)));
+    expect(onPersistError).toHaveBeenCalledWith(
+      expect.any(DOMException),
+      getPersistKey(STORE_ID, 'cache'),
+      expect.objectContaining({ storeId: STORE_ID, stateKey: 'cache', type: 'STRING' }),
+    );
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { reactive } from 'vue';
+
+import { CnSerializeContext } from '../src/types';
+import { RICH_STATE_DESERIALIZER, RICH_STATE_SERIALIZER, richParse, richStringify } from '../src/serializer';
+import { callSerialize } from '../src/util';
+
+const roundTrip = <T>(value: T): T => richParse(richStringify(value)) as T;
+
+describe('rich serializer', () => {
+  it('round-trips primitives and special numbers', () => {
+    expect(roundTrip(0)).toEqual(0);
+    expect(roundTrip(false)).toEqual(false);
+    expect(roundTrip('')).toEqual('');
+    expect(roundTrip(null)).toBeNull();
+    expect(roundTrip(undefined)).toBeUndefined();
+    expect(roundTrip(NaN)).toBeNaN();
+    expect(roundTrip(Infinity)).toEqual(Infinity);
+    expect(roundTrip(-Infinity)).toEqual(-Infinity);
+    expect(Object.is(roundTrip(-0), -0)).toBe(true);
+    expect(roundTrip(BigInt('12345678901234567890'))).toEqual(BigInt('12345678901234567890'));
+  });
+
+  it('round-trips Date, Map and Set', () => {
+    const value = {
+      date: new Date('2024-01-01T00:00:00.000Z'),
+      invalidDate: new Date(NaN),
+      map: new Map<unknown, unknown>([
+        ['a', 1],
+        [2, new Set(['b'])],
+      ]),
+      optional: undefined,
+    };
+
+    const restored = roundTrip(value);
+
+    expect(restored.date).toBeInstanceOf(Date);
+    expect(restored.date.getTime()).toEqual(value.date.getTime());
+    expect(restored.invalidDate.getTime()).toBeNaN();
+    expect(restored.map).toEqual(value.map);
+    expect('optional' in restored).toBe(true);
+  });
+
+  it('keeps shared and circular references', () => {
+    type Node = { name: string; parent?: Node; children: Array<Node> };
+    const root: Node = { name: 'root', children: [] };
+    const child: Node = { name: 'child', parent: root, children: [] };
+    root.children.push(child, child);
+
+    const restored = roundTrip(root);
+
+    expect(restored.children[0]).toBe(restored.children[1]);
+    expect(restored.children[0].parent).toBe(restored);
+  });
+
+  it('treats reactive proxies as their raw objects', () => {
+    const raw = { name: 'ipsum' };
+    const proxy = reactive(raw);
+
+    const restored = roundTrip([raw, proxy]);
+
+    expect(restored[0]).toBe(restored[1]);
+  });
+
+  it('does not persist undefined states', () => {
+    const context: CnSerializeContext = { stateKey: 'lorem', type: 'STRING', oldValue: undefined };
+    expect(callSerialize(RICH_STATE_SERIALIZER, undefined, context)).toBeNull();
+    expect(RICH_STATE_DESERIALIZER('')).toBeNull();
+    expect(RICH_STATE_DESERIALIZER(callSerialize(RICH_STATE_SERIALIZER, 0, context) as string)).toEqual(0);
+  });
+});
@@ -0,0 +1,252 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { createApp, nextTick, ref } from 'vue';
+import { createPinia, defineStore, setActivePinia } from 'pinia';
+
+import { createCnPersistPiniaPlugin } from '../src/plugin';
+import { CnPersistSnapshot, exportCnPersistSnapshot, importCnPersistSnapshot } from '../src/snapshot';
+import { getPersistHashKey, getPersistKey } from '../src/util';
+import { CnStateMigrations, StorageLike } from '../src/types';
+
+const STORE_ID = 'mock-store';
+const STATE_KEY = 'lorem';
+const HASH_STATE_KEY = 'nodes';
+const LIST_STATE_KEY = 'logs';
+const PERSIST_KEY = getPersistKey(STORE_ID, STATE_KEY);
+const HASH_PERSIST_KEY = getPersistKey(STORE_ID, HASH_STATE_KEY);
+
+const createStorage = () => {
+  const state: Record<string, string> = {};
+  const storage: StorageLike & { state: Record<string, string> } = {
+    state,
+    getItem: key => state[key] ?? null,
+    setItem: (key, value) => {
+      state[key] = value;
+    },
+    removeItem: key => {
+      delete state[key];
+    },
+  };
+  return storage;
+};
+
+/**
+ * 快照只包含已创建的 store，每个用例结束后销毁创建的 store
+ */
+const disposers: Array<() => void> = [];
+
+afterEach(() => {
+  disposers.splice(0).forEach(dispose => dispose());
+});
+
+const setupStore = (storage: StorageLike, version?: number, migrations?: CnStateMigrations) => {
+  const pinia = createPinia();
+  pinia.use(createCnPersistPiniaPlugin({ globalDebounce: 0 }));
+  createApp({}).use(pinia);
+  setActivePinia(pinia);
+  const useStore = defineStore(STORE_ID, {
+    state: () => ({
+      [STATE_KEY]: { name: 'ipsum', secret: 'sit' },
+      [HASH_STATE_KEY]: {} as Record<string, unknown>,
+      [LIST_STATE_KEY]: [] as Array<string>,
+    }),
+    actions: {
+      hsetAndPersistNodes(key: string, value: unknown) {
+        this[HASH_STATE_KEY][key] = value;
+      },
+      lpushAndPersistLogs(...items: Array<string>) {
+        this[LIST_STATE_KEY].push(...items);
+      },
+    },
+    cnPersist: {
+      storage,
+      version,
+      migrations,
+      states: {
+        [STATE_KEY]: { excludes: { secret: true } },
+        [HASH_STATE_KEY]: { policy: 'HASH' },
+        [LIST_STATE_KEY]: { policy: 'LIST' },
+      },
+    },
+  });
+  const store = useStore();
+  disposers.push(() => store.$dispose());
+  return store;
+};
+
+const produceSnapshot = (states: CnPersistSnapshot['states']): CnPersistSnapshot => {
+  return { format: 'cn-persist-snapshot', version: 1, createdAt: 0, states };
+};
+
+describe('snapshot', () => {
+  it('exports persisted data of all stores with expanded HASH entries', async () => {
+    //* arrange
+    const store = setupStore(createStorage());
+    store.hsetAndPersistNodes('a', { id: 1 });
+    store.hsetAndPersistNodes('b', { id: 2 });
+    store.lpushAndPersistLogs('x', 'y');
+    await nextTick();
+
+    //* act
+    const snapshot = await exportCnPersistSnapshot();
+
+    //* assert
+    expect(snapshot).toEqual({
+      format: 'cn-persist-snapshot',
+      version: 1,
+      createdAt: expect.any(Number),
+      states: [
+        { storeId: STORE_ID, stateKey: STATE_KEY, policy: 'STRING', version: 0, data: { name: 'ipsum' } },
+        {
+          storeId: STORE_ID,
+          stateKey: HASH_STATE_KEY,
+          policy: 'HASH',
+          version: 0,
+          data: { a: { id: 1 }, b: { id: 2 } },
+        },
+        { storeId: STORE_ID, stateKey: LIST_STATE_KEY, policy: 'LIST', version: 0, data: ['x', 'y'] },
+      ],
+    });
+  });
+
+  it('exports and imports the states of setup stores', async () => {
+    //* arrange
+    const storage = createStorage();
+    const pinia = createPinia();
+    pinia.use(createCnPersistPiniaPlugin({ globalDebounce: 0 }));
+    createApp({}).use(pinia);
+    setActivePinia(pinia);
+    const useStore = defineStore(
+      STORE_ID,
+      () => {
+        const lorem = ref('ipsum');
+        const nodes = ref<Record<string, unknown>>({});
+        const hsetAndPersistNodes = (key: string, value: unknown) => {
+          nodes.value[key] = value;
+        };
+        return { [STATE_KEY]: lorem, [HASH_STATE_KEY]: nodes, hsetAndPersistNodes };
+      },
+      { cnPersist: { storage, states: { [STATE_KEY]: {}, [HASH_STATE_KEY]: { policy: 'HASH' } } } },
+    );
+    const store = useStore();
+    disposers.push(() => store.$dispose());
+    store.hsetAndPersistNodes('a', { id: 1 });
+    await nextTick();
+
+    //* act
+    const snapshot = await exportCnPersistSnapshot();
+    store[STATE_KEY] = 'dolor';
+    store.hsetAndPersistNodes('b', { id: 2 });
+    await nextTick();
+    await importCnPersistSnapshot(snapshot, { mode: 'replace' });
+
+    //* assert
+    expect(snapshot.states).toEqual([
+      { storeId: STORE_ID, stateKey: STATE_KEY, policy: 'STRING', version: 0, data: 'ipsum' },
+      { storeId: STORE_ID, stateKey: HASH_STATE_KEY, policy: 'HASH', version: 0, data: { a: { id: 1 } } },
+    ]);
+    expect(storage.state[PERSIST_KEY]).toBe('"ipsum"');
+    expect(store[STATE_KEY]).toBe('ipsum');
+    expect(store[HASH_STATE_KEY]).toEqual({ a: { id: 1 } });
+  });
+
+  it('merges a snapshot into storage and hydrates the stores', async () => {
+    //* arrange
+    const storage = createStorage();
+    const store = setupStore(storage);
+    store.hsetAndPersistNodes('a', 1);
+    await nextTick();
+    const snapshot = produceSnapshot([
+      { storeId: STORE_ID, stateKey: STATE_KEY, policy: 'STRING', version: 0, data: { name: 'dolor' } },
+      { storeId: STORE_ID, stateKey: HASH_STATE_KEY, policy: 'HASH', version: 0, data: { b: 2 } },
+      { storeId: 'absent-store', stateKey: STATE_KEY, policy: 'STRING', version: 0, data: {} },
+    ]);
+
+    //* act
+    await importCnPersistSnapshot(snapshot, { mode: 'merge' });
+
+    //* assert
+    expect(JSON.parse(storage.state[PERSIST_KEY])).toEqual({ name: 'dolor' });
+    expect(storage.state[getPersistHashKey(HASH_PERSIST_KEY, 'b')]).toBe('2');
+    expect(store[STATE_KEY]).toEqual({ name: 'dolor' });
+    expect(store[HASH_STATE_KEY]).toEqual({ a: 1, b: 2 });
+  });
+
+  it('replaces persisted data that is not in the snapshot', async () => {
+    //* arrange
+    const storage = createStorage();
+    const store = setupStore(storage);
+    store.hsetAndPersistNodes('a', 1);
+    store.lpushAndPersistLogs('x');
+    store[STATE_KEY].name = 'dolor';
+    await nextTick();
+    const snapshot = produceSnapshot([
+      { storeId: STORE_ID, stateKey: HASH_STATE_KEY, policy: 'HASH', version: 0, data: { b: 2 } },
+    ]);
+
+    //* act
+    await importCnPersistSnapshot(snapshot, { mode: 'replace' });
+    await nextTick();
+
+    //* assert
+    expect(storage.state[PERSIST_KEY]).toBeUndefined();
+    expect(storage.state[getPersistHashKey(HASH_PERSIST_KEY, 'a')]).toBeUndefined();
+    expect(JSON.parse(storage.state[HASH_PERSIST_KEY])).toEqual(['b']);
+    expect(store[HASH_STATE_KEY]).toEqual({ b: 2 });
+    expect(store[STATE_KEY]).toEqual({ name: 'ipsum', secret: 'sit' });
+    expect(store[LIST_STATE_KEY]).toEqual([]);
+  });
+
+  it('resets the states of setup stores that are not in the snapshot', async () => {
+    //* arrange
+    const storage = createStorage();
+    const pinia = createPinia();
+    pinia.use(createCnPersistPiniaPlugin({ globalDebounce: 0 }));
+    createApp({}).use(pinia);
+    setActivePinia(pinia);
+    const useStore = defineStore(
+      STORE_ID,
+      () => ({ [STATE_KEY]: ref({ name: 'ipsum' }), [LIST_STATE_KEY]: ref(new Set(['x'])) }),
+      { cnPersist: { storage, states: { [STATE_KEY]: {}, [LIST_STATE_KEY]: {} } } },
+    );
+    const store = useStore();
+    disposers.push(() => store.$dispose());
+    store[STATE_KEY].name = 'dolor';
+    store[LIST_STATE_KEY].add('y');
+    await nextTick();
+
+    //* act
+    await importCnPersistSnapshot(produceSnapshot([]), { mode: 'replace' });
+    await nextTick();
+
+    //* assert
+    expect(storage.state).toEqual({});
+    expect(store[STATE_KEY]).toEqual({ name: 'ipsum' });
+    expect(store[LIST_STATE_KEY]).toEqual(new Set(['x']));
+  });
+
+  it('migrates snapshot data of older versions', async () => {
+    //* arrange
+    const storage = createStorage();
+    const store = setupStore(storage, 1, { 1: value => ({ ...(value as object), migrated: true }) });
+    const snapshot = produceSnapshot([
+      { storeId: STORE_ID, stateKey: STATE_KEY, policy: 'STRING', version: 0, data: { name: 'dolor' } },
+    ]);
+
+    //* act
+    await importCnPersistSnapshot(snapshot);
+
+    //* assert
+    expect(store[STATE_KEY]).toEqual({ name: 'dolor', migrated: true });
+  });
+
+  it('rejects invalid snapshots', async () => {
+    //* arrange
+    setupStore(createStorage());
+
+    //* act
+    const imported = importCnPersistSnapshot({ states: [] } as unknown as CnPersistSnapshot);
+
+    //* assert
+    await expect(imported).rejects.toThrow('invalid snapshot');
+  });
+});